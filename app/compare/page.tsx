@@ -0,0 +1,32 @@
+import { redirect } from "next/navigation"
+
+import UltrasoundSimulation from "@/components/ultrasound-simulation"
+import { parseSeed, randomSeed } from "@/lib/simulation/random"
+
+export default async function ComparePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ seed?: string | string[] }>
+}) {
+  const { seed: seedParam } = await searchParams
+  const seed = parseSeed(Array.isArray(seedParam) ? seedParam[0] : seedParam)
+  if (seed === undefined) redirect(`/compare?seed=${randomSeed()}`)
+
+  // Same seed on both sides so the only difference is the skull
+  return (
+    <main className="grid h-screen grid-cols-1 gap-px bg-border md:grid-cols-2">
+      <section className="relative min-h-0">
+        <h2 className="pointer-events-none absolute left-4 top-3 z-10 text-sm font-medium text-slate-300">
+          With skull
+        </h2>
+        <UltrasoundSimulation seed={seed} />
+      </section>
+      <section className="relative min-h-0">
+        <h2 className="pointer-events-none absolute left-4 top-3 z-10 text-sm font-medium text-slate-300">
+          Without skull
+        </h2>
+        <UltrasoundSimulation seed={seed} config={{ medium: { skullThickness: 0 } }} />
+      </section>
+    </main>
+  )
+}
@@ -1,9 +1,21 @@
+import { redirect } from "next/navigation"
+
 import UltrasoundSimulation from "@/components/ultrasound-simulation"
+import { parseSeed, randomSeed } from "@/lib/simulation/random"
+
+export default async function Page({
+  searchParams,
+}: {
+  searchParams: Promise<{ seed?: string | string[] }>
+}) {
+  const { seed: seedParam } = await searchParams
+  const seed = parseSeed(Array.isArray(seedParam) ? seedParam[0] : seedParam)
+  // Always put the seed in the URL so any view can be shared and reproduced
+  if (seed === undefined) redirect(`/?seed=${randomSeed()}`)
 
-export default function Page() {
   return (
-    <main>
-      <UltrasoundSimulation />
+    <main className="h-screen">
+      <UltrasoundSimulation seed={seed} />
     </main>
   )
 }
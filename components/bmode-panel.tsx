@@ -0,0 +1,69 @@
+"use client"
+
+import type { Ref } from "react"
+
+import { Slider } from "@/components/ui/slider"
+import { cn } from "@/lib/utils"
+
+interface BModePanelProps {
+  /** The simulation draws the image into this canvas */
+  canvasRef: Ref<HTMLCanvasElement>
+  /** dB before log compression */
+  gain: number
+  onGainChange: (gain: number) => void
+  /** dB from full brightness to black */
+  dynamicRange: number
+  onDynamicRangeChange: (dynamicRange: number) => void
+  className?: string
+}
+
+export function BModePanel({
+  canvasRef,
+  gain,
+  onGainChange,
+  dynamicRange,
+  onDynamicRangeChange,
+  className,
+}: BModePanelProps) {
+  return (
+    <section className={cn("flex min-h-0 flex-col bg-slate-950 text-xs text-slate-300", className)}>
+      <header className="flex flex-wrap items-center gap-x-4 gap-y-2 border-b border-slate-800 px-3 py-2">
+        <h2 className="font-medium" title="Delay-and-sum beamformed from the element signals of the last transmit">
+          B-mode
+        </h2>
+        <label className="flex items-center gap-2">
+          <span className="whitespace-nowrap">Gain</span>
+          <Slider
+            className="w-20"
+            min={0}
+            max={100}
+            step={1}
+            value={[gain]}
+            onValueChange={([v]) => onGainChange(v)}
+            aria-label="B-mode gain"
+          />
+          <span className="w-10 tabular-nums">{gain.toFixed(0)} dB</span>
+        </label>
+        <label className="flex items-center gap-2" title="Range of echo strengths spread from black to white">
+          <span className="whitespace-nowrap">DR</span>
+          <Slider
+            className="w-20"
+            min={10}
+            max={100}
+            step={1}
+            value={[dynamicRange]}
+            onValueChange={([v]) => onDynamicRangeChange(v)}
+            aria-label="B-mode dynamic range"
+          />
+          <span className="w-10 tabular-nums">{dynamicRange.toFixed(0)} dB</span>
+        </label>
+      </header>
+      <canvas
+        ref={canvasRef}
+        className="block min-h-0 w-full flex-1"
+        role="img"
+        aria-label="B-mode image reconstructed from the echoes received by the probe"
+      />
+    </section>
+  )
+}
@@ -0,0 +1,30 @@
+"use client"
+
+import type { Ref } from "react"
+
+import { cn } from "@/lib/utils"
+
+interface ChannelDataPanelProps {
+  /** The simulation draws the traces into this canvas */
+  canvasRef: Ref<HTMLCanvasElement>
+  className?: string
+}
+
+export function ChannelDataPanel({ canvasRef, className }: ChannelDataPanelProps) {
+  return (
+    <section className={cn("flex min-h-0 flex-col bg-slate-950 text-xs text-slate-300", className)}>
+      <header className="flex items-center gap-2 border-b border-slate-800 px-3 py-2">
+        <h2 className="font-medium" title="Raw signal of every element since the last transmit">
+          Channel data
+        </h2>
+        <span className="text-slate-500">element × time</span>
+      </header>
+      <canvas
+        ref={canvasRef}
+        className="block min-h-0 w-full flex-1"
+        role="img"
+        aria-label="Signal received by each element over time; echoes from a point trace out a hyperbola across the aperture"
+      />
+    </section>
+  )
+}
@@ -0,0 +1,69 @@
+"use client"
+
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from "recharts"
+
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { cn } from "@/lib/utils"
+
+const chartConfig = {
+  tissue: { label: "Tissue", color: "#94a3b8" },
+  blood: { label: "Blood", color: "#f97316" },
+  noise: { label: "Noise", color: "#334155" },
+} satisfies ChartConfig
+
+interface ClutterSpectrumProps {
+  /** Energy of each slow-time mode, largest first */
+  energy: ArrayLike<number>
+  /** Modes from `clutterCutoff` up to (not including) `noiseCutoff` are kept as blood */
+  clutterCutoff: number
+  noiseCutoff: number
+  className?: string
+}
+
+/**
+ * Eigenvalue spectrum of the SVD clutter filter: the energy of each slow-time
+ * mode in dB below the strongest, coloured by what the cutoffs take it for.
+ */
+export function ClutterSpectrum({ energy, clutterCutoff, noiseCutoff, className }: ClutterSpectrumProps) {
+  const levels = Array.from(energy, (e) => 10 * Math.log10(Math.max(e, 1e-30) / Math.max(energy[0] ?? 0, 1e-30)))
+  // Bars rise from the weakest mode, so they are drawn as height above it
+  const floor = Math.floor(Math.min(0, ...levels) / 10) * 10
+  const data = levels.map((level, k) => ({
+    mode: k + 1,
+    level,
+    height: level - floor,
+    kind: k < clutterCutoff ? "tissue" : k < noiseCutoff ? "blood" : "noise",
+  }))
+
+  return (
+    <ChartContainer config={chartConfig} className={cn("aspect-auto", className)}>
+      <BarChart data={data} margin={{ top: 4, right: 8, bottom: 0, left: -16 }} barCategoryGap={1}>
+        <CartesianGrid vertical={false} stroke="#1e293b" />
+        <XAxis dataKey="mode" tickLine={false} axisLine={false} interval="preserveStartEnd" minTickGap={12} />
+        <YAxis
+          domain={[0, -floor]}
+          tickLine={false}
+          axisLine={false}
+          tickCount={4}
+          tickFormatter={(v: number) => `${v + floor}`}
+          unit=" dB"
+        />
+        <ChartTooltip
+          cursor={false}
+          content={
+            <ChartTooltipContent
+              hideIndicator
+              labelFormatter={(_, payload) => `Mode ${payload[0]?.payload.mode} · ${chartConfig[payload[0]?.payload.kind as keyof typeof chartConfig]?.label}`}
+              formatter={(_, __, item) => `${item.payload.level.toFixed(1)} dB`}
+            />
+          }
+        />
+        <Bar dataKey="height" isAnimationActive={false}>
+          {data.map((d) => (
+            <Cell key={d.mode} fill={`var(--color-${d.kind})`} />
+          ))}
+        </Bar>
+      </BarChart>
+    </ChartContainer>
+  )
+}
@@ -0,0 +1,116 @@
+"use client"
+
+import type { Ref } from "react"
+
+import { fromLogSlider, toLogSlider } from "@/components/simulation-controls"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { MAX_DOPPLER_PRF, MAX_GATE_LENGTH, MIN_DOPPLER_PRF, MIN_GATE_LENGTH } from "@/lib/simulation/constants"
+import { cn } from "@/lib/utils"
+
+interface DopplerPanelProps {
+  /** The simulation draws the spectrum into this canvas */
+  canvasRef: Ref<HTMLCanvasElement>
+  /** Pulsed-wave mode: spectrum at the sample gate */
+  enabled: boolean
+  onEnabledChange: (enabled: boolean) => void
+  /** Colour flow over the vessels */
+  colorFlow: boolean
+  onColorFlowChange: (colorFlow: boolean) => void
+  /** Doppler PRF, kHz */
+  prf: number
+  onPrfChange: (prf: number) => void
+  /** Sample volume length, mm */
+  gateLength: number
+  onGateLengthChange: (gateLength: number) => void
+  /** Highest velocity measured without aliasing, m/s */
+  nyquist: number
+  /** Whether a gate has been placed yet */
+  placed: boolean
+  /** Whether clicks in the brain place the gate, rather than the power Doppler region of interest */
+  placing: boolean
+  className?: string
+}
+
+export function DopplerPanel({
+  canvasRef,
+  enabled,
+  onEnabledChange,
+  colorFlow,
+  onColorFlowChange,
+  prf,
+  onPrfChange,
+  gateLength,
+  onGateLengthChange,
+  nyquist,
+  placed,
+  placing,
+  className,
+}: DopplerPanelProps) {
+  return (
+    <section className={cn("flex min-h-0 flex-col bg-slate-950 text-xs text-slate-300", className)}>
+      <header className="flex flex-wrap items-center gap-x-4 gap-y-2 border-b border-slate-800 px-3 py-2">
+        <label className="flex items-center gap-2" title="Measure blood velocity at a sample gate">
+          <Switch checked={enabled} onCheckedChange={onEnabledChange} aria-label="Pulsed-wave Doppler" />
+          <h2 className="font-medium">PW Doppler</h2>
+        </label>
+        <label className="flex items-center gap-2" title="Colour the vessels by flow toward (red) or away from (blue) the probe">
+          <Switch checked={colorFlow} onCheckedChange={onColorFlowChange} aria-label="Colour flow" />
+          <span className="whitespace-nowrap">Colour flow</span>
+        </label>
+        {(enabled || colorFlow) && (
+          <>
+            <label className="flex items-center gap-2" title="Higher PRFs measure faster flow before it aliases">
+              <span className="whitespace-nowrap">PRF</span>
+              <Slider
+                className="w-20"
+                min={0}
+                max={1}
+                step={0.001}
+                value={[toLogSlider(prf, MIN_DOPPLER_PRF, MAX_DOPPLER_PRF)]}
+                onValueChange={([v]) => onPrfChange(fromLogSlider(v, MIN_DOPPLER_PRF, MAX_DOPPLER_PRF))}
+                aria-label="Doppler pulse repetition frequency"
+              />
+              <span className="w-14 tabular-nums">{prf.toFixed(1)} kHz</span>
+            </label>
+            {enabled && (
+              <label className="flex items-center gap-2">
+                <span className="whitespace-nowrap">Gate</span>
+                <Slider
+                  className="w-16"
+                  min={MIN_GATE_LENGTH}
+                  max={MAX_GATE_LENGTH}
+                  step={0.5}
+                  value={[gateLength]}
+                  onValueChange={([v]) => onGateLengthChange(v)}
+                  aria-label="Sample gate length"
+                />
+                <span className="w-12 tabular-nums">{gateLength.toFixed(1)} mm</span>
+              </label>
+            )}
+            <span className="tabular-nums text-slate-400" title="Nyquist velocity: faster flow wraps around">
+              ±{(nyquist * 100).toFixed(0)} cm/s
+            </span>
+          </>
+        )}
+      </header>
+      {enabled && (
+        <div className="relative min-h-0 flex-1">
+          <canvas
+            ref={canvasRef}
+            className="block h-full w-full"
+            role="img"
+            aria-label="Spectral Doppler: blood velocity at the sample gate over time"
+          />
+          {!placed && (
+            <p className="pointer-events-none absolute inset-0 flex items-center justify-center text-slate-500">
+              {placing
+                ? "Click in the brain to place the sample gate"
+                : "Switch Doppler on again to place the sample gate with a click"}
+            </p>
+          )}
+        </div>
+      )}
+    </section>
+  )
+}
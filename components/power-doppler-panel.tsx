@@ -0,0 +1,209 @@
+"use client"
+
+import type { Ref } from "react"
+
+import { ClutterSpectrum } from "@/components/clutter-spectrum"
+import { fromLogSlider, toLogSlider } from "@/components/simulation-controls"
+import { TimeCourseChart } from "@/components/time-course-chart"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import {
+  MAX_COMPOUND_ANGLES,
+  MAX_ROI_SIZE,
+  MAX_ULTRAFAST_PRF,
+  MIN_ROI_SIZE,
+  MIN_ULTRAFAST_PRF,
+  POWER_DOPPLER_ENSEMBLE,
+} from "@/lib/simulation/constants"
+import type { TimeCoursePoint } from "@/lib/simulation/power-doppler"
+import { formatFrequency } from "@/lib/simulation/units"
+import { cn } from "@/lib/utils"
+
+interface PowerDopplerPanelProps {
+  /** The simulation draws the image into this canvas */
+  canvasRef: Ref<HTMLCanvasElement>
+  enabled: boolean
+  onEnabledChange: (enabled: boolean) => void
+  /** Tilted plane waves compounded per frame */
+  angles: number
+  onAnglesChange: (angles: number) => void
+  /** Plane-wave transmit rate, kHz */
+  prf: number
+  onPrfChange: (prf: number) => void
+  /** dB shown below the strongest blood signal */
+  dynamicRange: number
+  onDynamicRangeChange: (dynamicRange: number) => void
+  /** SVD clutter filter: modes below this are taken out as tissue... */
+  clutterCutoff: number
+  onClutterCutoffChange: (clutterCutoff: number) => void
+  /** ...and modes from this one on as noise */
+  noiseCutoff: number
+  onNoiseCutoffChange: (noiseCutoff: number) => void
+  /** Energy of each slow-time mode of the newest ensemble, largest first */
+  modeEnergy: ArrayLike<number>
+  /** Side of the region of interest, mm */
+  roiSize: number
+  onRoiSizeChange: (roiSize: number) => void
+  /** Whether a region of interest has been placed */
+  roiPlaced: boolean
+  /** Whether clicks in the brain place the region of interest, rather than the Doppler gate */
+  placing: boolean
+  /** Signal of the region of interest over time, and the stimulation blocks on the same clock */
+  timeCourse: readonly TimeCoursePoint[]
+  blocks: readonly { start: number; end: number }[]
+  className?: string
+}
+
+export function PowerDopplerPanel({
+  canvasRef,
+  enabled,
+  onEnabledChange,
+  angles,
+  onAnglesChange,
+  prf,
+  onPrfChange,
+  dynamicRange,
+  onDynamicRangeChange,
+  clutterCutoff,
+  onClutterCutoffChange,
+  noiseCutoff,
+  onNoiseCutoffChange,
+  modeEnergy,
+  roiSize,
+  onRoiSizeChange,
+  roiPlaced,
+  placing,
+  timeCourse,
+  blocks,
+  className,
+}: PowerDopplerPanelProps) {
+  return (
+    <section className={cn("flex min-h-0 flex-col bg-slate-950 text-xs text-slate-300", className)}>
+      <header className="flex flex-wrap items-center gap-x-4 gap-y-2 border-b border-slate-800 px-3 py-2">
+        <label
+          className="flex items-center gap-2"
+          title="Ultrafast power Doppler, as in functional ultrasound: compounded plane waves, SVD clutter filtered"
+        >
+          <Switch checked={enabled} onCheckedChange={onEnabledChange} aria-label="Ultrafast power Doppler" />
+          <h2 className="font-medium">Power Doppler</h2>
+        </label>
+        {enabled && (
+          <>
+            <label className="flex items-center gap-2" title="Tilted plane waves compounded into each frame">
+              <span className="whitespace-nowrap">Angles</span>
+              <Slider
+                className="w-16"
+                min={1}
+                max={MAX_COMPOUND_ANGLES}
+                step={1}
+                value={[angles]}
+                onValueChange={([v]) => onAnglesChange(v)}
+                aria-label="Compounded plane-wave angles"
+              />
+              <span className="w-4 tabular-nums">{angles}</span>
+            </label>
+            <label className="flex items-center gap-2" title="Plane-wave transmit rate">
+              <span className="whitespace-nowrap">PRF</span>
+              <Slider
+                className="w-16"
+                min={0}
+                max={1}
+                step={0.001}
+                value={[toLogSlider(prf, MIN_ULTRAFAST_PRF, MAX_ULTRAFAST_PRF)]}
+                onValueChange={([v]) => onPrfChange(fromLogSlider(v, MIN_ULTRAFAST_PRF, MAX_ULTRAFAST_PRF))}
+                aria-label="Plane-wave transmit rate"
+              />
+              <span className="w-14 tabular-nums">{prf.toFixed(1)} kHz</span>
+            </label>
+            <label className="flex items-center gap-2" title="Range of blood signal strengths shown">
+              <span className="whitespace-nowrap">DR</span>
+              <Slider
+                className="w-16"
+                min={10}
+                max={60}
+                step={1}
+                value={[dynamicRange]}
+                onValueChange={([v]) => onDynamicRangeChange(v)}
+                aria-label="Power Doppler dynamic range"
+              />
+              <span className="w-10 tabular-nums">{dynamicRange.toFixed(0)} dB</span>
+            </label>
+            <label className="flex items-center gap-2" title="Slow-time modes the clutter filter takes out as tissue">
+              <span className="whitespace-nowrap">Tissue</span>
+              <Slider
+                className="w-16"
+                min={0}
+                max={POWER_DOPPLER_ENSEMBLE}
+                step={1}
+                value={[clutterCutoff]}
+                onValueChange={([v]) => onClutterCutoffChange(Math.min(v, noiseCutoff - 1))}
+                aria-label="Clutter filter tissue cutoff"
+              />
+              <span className="w-4 tabular-nums">{clutterCutoff}</span>
+            </label>
+            <label className="flex items-center gap-2" title="Slow-time modes from this one on are taken out as noise">
+              <span className="whitespace-nowrap">Noise</span>
+              <Slider
+                className="w-16"
+                min={0}
+                max={POWER_DOPPLER_ENSEMBLE}
+                step={1}
+                value={[noiseCutoff]}
+                onValueChange={([v]) => onNoiseCutoffChange(Math.max(v, clutterCutoff + 1))}
+                aria-label="Clutter filter noise cutoff"
+              />
+              <span className="w-4 tabular-nums">{noiseCutoff}</span>
+            </label>
+            <label className="flex items-center gap-2" title="Side of the region of interest whose signal is plotted over time">
+              <span className="whitespace-nowrap">ROI</span>
+              <Slider
+                className="w-16"
+                min={MIN_ROI_SIZE}
+                max={MAX_ROI_SIZE}
+                step={0.5}
+                value={[roiSize]}
+                onValueChange={([v]) => onRoiSizeChange(v)}
+                aria-label="Region of interest size"
+              />
+              <span className="w-12 tabular-nums">{roiSize.toFixed(1)} mm</span>
+            </label>
+            <span className="tabular-nums text-slate-400" title="Compounded frame rate">
+              {formatFrequency((prf * 1e3) / angles)} frames
+            </span>
+          </>
+        )}
+      </header>
+      {enabled && (
+        <>
+          <canvas
+            ref={canvasRef}
+            className="block min-h-0 w-full flex-1"
+            role="img"
+            aria-label="Power Doppler image of the blood vessels, averaged over every frame acquired so far"
+          />
+          {modeEnergy.length > 0 && (
+            <ClutterSpectrum
+              className="h-24 w-full shrink-0 border-t border-slate-800"
+              energy={modeEnergy}
+              clutterCutoff={clutterCutoff}
+              noiseCutoff={noiseCutoff}
+            />
+          )}
+          {roiPlaced ? (
+            <TimeCourseChart
+              className="h-28 w-full shrink-0 border-t border-slate-800"
+              points={timeCourse}
+              blocks={blocks}
+            />
+          ) : (
+            <p className="shrink-0 border-t border-slate-800 px-3 py-2 text-slate-500">
+              {placing
+                ? "Click in the brain to follow a region of interest over time"
+                : "Switch power Doppler on again to place a region of interest with a click"}
+            </p>
+          )}
+        </>
+      )}
+    </section>
+  )
+}
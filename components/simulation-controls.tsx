@@ -0,0 +1,243 @@
+"use client"
+
+import { Pause, Play, Square, StepBack, StepForward, Zap } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import type { BeamMode, SolverMode } from "@/lib/simulation/config"
+import {
+  MAX_CYCLES,
+  MAX_FOCUS_DEPTH,
+  MAX_FREQUENCY,
+  MAX_PRF,
+  MAX_STEERING,
+  MAX_TIME_SCALE,
+  MIN_CYCLES,
+  MIN_FOCUS_DEPTH,
+  MIN_FREQUENCY,
+  MIN_PRF,
+  MIN_TIME_SCALE,
+} from "@/lib/simulation/constants"
+import { cn } from "@/lib/utils"
+
+interface SimulationControlsProps {
+  autoTransmit: boolean
+  prf: number
+  /** PRF as shown to the user, e.g. in physical units */
+  prfLabel?: string
+  /** Transmit centre frequency, MHz */
+  frequency: number
+  onFrequencyChange: (frequency: number) => void
+  /** Pulse length in cycles */
+  cycles: number
+  onCyclesChange: (cycles: number) => void
+  /** Fractional bandwidth and axial resolution of the pulse, as shown to the user */
+  pulseLabel?: string
+  beam: BeamMode
+  onBeamChange: (beam: BeamMode) => void
+  /** Steering angle, degrees */
+  steering: number
+  onSteeringChange: (steering: number) => void
+  /** Focal depth, or virtual source distance for diverging waves, mm */
+  focusDepth: number
+  onFocusDepthChange: (focusDepth: number) => void
+  paused: boolean
+  timeScale: number
+  solver: SolverMode
+  onSolverChange: (solver: SolverMode) => void
+  onAutoTransmitChange: (auto: boolean) => void
+  onPrfChange: (prf: number) => void
+  onPausedChange: (paused: boolean) => void
+  onTimeScaleChange: (timeScale: number) => void
+  onStepBack: () => void
+  onStepForward: () => void
+  className?: string
+}
+
+// Log-scaled sliders so both ends of a range that spans two orders of magnitude get equal travel
+export const toLogSlider = (v: number, min: number, max: number) => Math.log(v / min) / Math.log(max / min)
+export const fromLogSlider = (v: number, min: number, max: number) => min * Math.pow(max / min, v)
+
+const BEAMS: { mode: BeamMode; label: string }[] = [
+  { mode: "plane", label: "Plane" },
+  { mode: "focused", label: "Focus" },
+  { mode: "diverging", label: "Diverge" },
+]
+
+const iconButton = "h-7 w-7 p-0 text-sky-300 hover:bg-slate-800 hover:text-sky-200"
+
+export function SimulationControls({
+  autoTransmit,
+  prf,
+  prfLabel,
+  frequency,
+  onFrequencyChange,
+  cycles,
+  onCyclesChange,
+  pulseLabel,
+  beam,
+  onBeamChange,
+  steering,
+  onSteeringChange,
+  focusDepth,
+  onFocusDepthChange,
+  paused,
+  timeScale,
+  solver,
+  onSolverChange,
+  onAutoTransmitChange,
+  onPrfChange,
+  onPausedChange,
+  onTimeScaleChange,
+  onStepBack,
+  onStepForward,
+  className,
+}: SimulationControlsProps) {
+  return (
+    <div
+      className={cn(
+        "flex flex-wrap items-center gap-x-4 gap-y-2 rounded-md border border-slate-800 bg-slate-950/85 px-3 py-2 text-xs text-slate-300 backdrop-blur",
+        className,
+      )}
+    >
+      <div className="flex items-center gap-1">
+        <Button variant="ghost" className={iconButton} onClick={onStepBack} title="Step back (,)" aria-label="Step back">
+          <StepBack />
+        </Button>
+        <Button
+          variant="ghost"
+          className={iconButton}
+          onClick={() => onPausedChange(!paused)}
+          title={paused ? "Play (K)" : "Pause (K)"}
+          aria-label={paused ? "Play" : "Pause"}
+        >
+          {paused ? <Play /> : <Pause />}
+        </Button>
+        <Button variant="ghost" className={iconButton} onClick={onStepForward} title="Step forward (.)" aria-label="Step forward">
+          <StepForward />
+        </Button>
+      </div>
+      <label className="flex items-center gap-2">
+        <span className="whitespace-nowrap">Speed</span>
+        <Slider
+          className="w-24"
+          min={0}
+          max={1}
+          step={0.001}
+          value={[toLogSlider(timeScale, MIN_TIME_SCALE, MAX_TIME_SCALE)]}
+          onValueChange={([v]) => onTimeScaleChange(fromLogSlider(v, MIN_TIME_SCALE, MAX_TIME_SCALE))}
+          aria-label="Time scale"
+        />
+        <span className="w-10 tabular-nums">{timeScale < 0.995 ? timeScale.toFixed(2) : timeScale.toFixed(1)}x</span>
+      </label>
+      <div className="flex items-center gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 gap-1.5 px-2 text-xs text-sky-300 hover:bg-slate-800 hover:text-sky-200"
+          aria-pressed={autoTransmit}
+          onClick={() => onAutoTransmitChange(!autoTransmit)}
+        >
+          {autoTransmit ? <Square /> : <Zap />}
+          {autoTransmit ? "Stop" : "Auto pulse"}
+        </Button>
+        <label className="flex items-center gap-2">
+          <span className="whitespace-nowrap">PRF</span>
+          <Slider
+            className="w-24"
+            min={0}
+            max={1}
+            step={0.001}
+            value={[toLogSlider(prf, MIN_PRF, MAX_PRF)]}
+            onValueChange={([v]) => onPrfChange(fromLogSlider(v, MIN_PRF, MAX_PRF))}
+            aria-label="Pulse repetition frequency"
+          />
+          <span className="w-16 tabular-nums">{prfLabel ?? `${prf.toFixed(2)} Hz`}</span>
+        </label>
+      </div>
+      <label className="flex items-center gap-2" title="Higher frequencies resolve finer detail but are absorbed sooner">
+        <span className="whitespace-nowrap">Freq</span>
+        <Slider
+          className="w-24"
+          min={0}
+          max={1}
+          step={0.001}
+          value={[toLogSlider(frequency, MIN_FREQUENCY, MAX_FREQUENCY)]}
+          onValueChange={([v]) => onFrequencyChange(fromLogSlider(v, MIN_FREQUENCY, MAX_FREQUENCY))}
+          aria-label="Transmit frequency"
+        />
+        <span className="w-16 tabular-nums">{frequency.toFixed(2)} MHz</span>
+      </label>
+      <label className="flex items-center gap-2" title="Shorter pulses have more bandwidth and separate closer scatterers">
+        <span className="whitespace-nowrap">Cycles</span>
+        <Slider
+          className="w-20"
+          min={MIN_CYCLES}
+          max={MAX_CYCLES}
+          step={0.5}
+          value={[cycles]}
+          onValueChange={([v]) => onCyclesChange(v)}
+          aria-label="Pulse length in cycles"
+        />
+        <span className="w-6 tabular-nums">{cycles.toFixed(1)}</span>
+        {pulseLabel && <span className="whitespace-nowrap tabular-nums text-slate-400">{pulseLabel}</span>}
+      </label>
+      <div className="flex items-center gap-2" title="Per-element transmit delays shape the wavefront">
+        <div className="flex rounded-md border border-slate-800" role="group" aria-label="Transmit beam">
+          {BEAMS.map(({ mode, label }) => (
+            <Button
+              key={mode}
+              variant="ghost"
+              size="sm"
+              className={cn(
+                "h-6 rounded-none px-2 text-xs text-slate-400 hover:bg-slate-800 hover:text-sky-200",
+                beam === mode && "bg-slate-800 text-sky-300",
+              )}
+              aria-pressed={beam === mode}
+              onClick={() => onBeamChange(mode)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2">
+          <span className="whitespace-nowrap">Steer</span>
+          <Slider
+            className="w-20"
+            min={-MAX_STEERING}
+            max={MAX_STEERING}
+            step={1}
+            value={[steering]}
+            onValueChange={([v]) => onSteeringChange(v)}
+            aria-label="Steering angle"
+          />
+          <span className="w-8 tabular-nums">{steering.toFixed(0)}°</span>
+        </label>
+        {beam !== "plane" && (
+          <label className="flex items-center gap-2">
+            <span className="whitespace-nowrap">{beam === "focused" ? "Focus" : "Source"}</span>
+            <Slider
+              className="w-20"
+              min={MIN_FOCUS_DEPTH}
+              max={MAX_FOCUS_DEPTH}
+              step={1}
+              value={[focusDepth]}
+              onValueChange={([v]) => onFocusDepthChange(v)}
+              aria-label={beam === "focused" ? "Focal depth" : "Virtual source distance"}
+            />
+            <span className="w-12 tabular-nums">{focusDepth.toFixed(0)} mm</span>
+          </label>
+        )}
+      </div>
+      <label className="flex items-center gap-2" title="Solve the acoustic wave equation and show the pressure field">
+        <Switch
+          checked={solver === "fdtd"}
+          onCheckedChange={checked => onSolverChange(checked ? "fdtd" : "geometric")}
+          aria-label="Wave field"
+        />
+        <span className="whitespace-nowrap">Wave field</span>
+      </label>
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import type { StimulusConfig } from "@/lib/simulation/config"
+import { MAX_STIMULUS_BLOCKS, MAX_STIMULUS_PERIOD } from "@/lib/simulation/constants"
+import { cn } from "@/lib/utils"
+
+interface StimulusPanelProps {
+  stimulus: StimulusConfig
+  onStimulusChange: (stimulus: StimulusConfig) => void
+  /** Vessels in the scene, numbered from 1 on the canvas */
+  vesselCount: number
+  className?: string
+}
+
+const PERIODS = [
+  { key: "baseline", label: "Rest", title: "Rest before the first block", min: 0 },
+  { key: "on", label: "On", title: "Stimulation per block", min: 1 },
+  { key: "off", label: "Off", title: "Rest after each block", min: 1 },
+] as const
+
+const INCREASES = [
+  { key: "flowIncrease", label: "Flow", title: "Rise in flow speed of the stimulated vessels at the full response" },
+  { key: "volumeIncrease", label: "Volume", title: "Rise in hematocrit (blood volume) of the stimulated vessels at the full response" },
+] as const
+
+/** Block-design stimulus protocol: when it stimulates, which vessels respond and by how much. */
+export function StimulusPanel({ stimulus, onStimulusChange, vesselCount, className }: StimulusPanelProps) {
+  const change = (patch: Partial<StimulusConfig>) => onStimulusChange({ ...stimulus, ...patch })
+  const toggleVessel = (i: number) =>
+    change({
+      vessels: stimulus.vessels.includes(i)
+        ? stimulus.vessels.filter(v => v !== i)
+        : [...stimulus.vessels, i].sort((a, b) => a - b),
+    })
+  const length = stimulus.baseline + stimulus.blocks * (stimulus.on + stimulus.off)
+
+  return (
+    <section className={cn("flex min-h-0 flex-col bg-slate-950 text-xs text-slate-300", className)}>
+      <header className="flex flex-wrap items-center gap-x-4 gap-y-2 px-3 py-2">
+        <label
+          className="flex items-center gap-2"
+          title="Block-design stimulation: the chosen vessels dilate and speed up following a haemodynamic response"
+        >
+          <Switch checked={stimulus.enabled} onCheckedChange={enabled => change({ enabled })} aria-label="Stimulus" />
+          <h2 className="font-medium">Stimulus</h2>
+        </label>
+        {stimulus.enabled && (
+          <>
+            {PERIODS.map(({ key, label, title, min }) => (
+              <label key={key} className="flex items-center gap-2" title={title}>
+                <span className="whitespace-nowrap">{label}</span>
+                <Slider
+                  className="w-16"
+                  min={min}
+                  max={MAX_STIMULUS_PERIOD}
+                  step={1}
+                  value={[stimulus[key]]}
+                  onValueChange={([v]) => change({ [key]: v })}
+                  aria-label={title}
+                />
+                <span className="w-8 tabular-nums">{stimulus[key].toFixed(0)} s</span>
+              </label>
+            ))}
+            <label className="flex items-center gap-2" title="Stimulation blocks">
+              <span className="whitespace-nowrap">Blocks</span>
+              <Slider
+                className="w-16"
+                min={1}
+                max={MAX_STIMULUS_BLOCKS}
+                step={1}
+                value={[stimulus.blocks]}
+                onValueChange={([v]) => change({ blocks: v })}
+                aria-label="Stimulation blocks"
+              />
+              <span className="w-4 tabular-nums">{stimulus.blocks}</span>
+            </label>
+            <span className="tabular-nums text-slate-400" title="Length of the protocol, in experiment seconds">
+              {length.toFixed(0)} s
+            </span>
+            <div className="flex items-center gap-2" title="Vessels that respond to the stimulus">
+              <span className="whitespace-nowrap">Vessels</span>
+              <div className="flex rounded-md border border-slate-800" role="group" aria-label="Stimulated vessels">
+                {Array.from({ length: vesselCount }, (_, i) => (
+                  <Button
+                    key={i}
+                    variant="ghost"
+                    size="sm"
+                    className={cn(
+                      "h-6 w-6 rounded-none px-0 text-xs text-slate-400 hover:bg-slate-800 hover:text-orange-200",
+                      stimulus.vessels.includes(i) && "bg-slate-800 text-orange-300",
+                    )}
+                    aria-pressed={stimulus.vessels.includes(i)}
+                    onClick={() => toggleVessel(i)}
+                  >
+                    {i + 1}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            {INCREASES.map(({ key, label, title }) => (
+              <label key={key} className="flex items-center gap-2" title={title}>
+                <span className="whitespace-nowrap">{label}</span>
+                <Slider
+                  className="w-16"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={[stimulus[key]]}
+                  onValueChange={([v]) => change({ [key]: v })}
+                  aria-label={title}
+                />
+                <span className="w-10 tabular-nums">+{(stimulus[key] * 100).toFixed(0)}%</span>
+              </label>
+            ))}
+          </>
+        )}
+      </header>
+    </section>
+  )
+}
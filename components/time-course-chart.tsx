@@ -0,0 +1,65 @@
+"use client"
+
+import { CartesianGrid, Line, LineChart, ReferenceArea, ReferenceLine, XAxis, YAxis } from "recharts"
+
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import type { TimeCoursePoint } from "@/lib/simulation/power-doppler"
+import { cn } from "@/lib/utils"
+
+const chartConfig = {
+  change: { label: "Power Doppler", color: "#f59e0b" },
+} satisfies ChartConfig
+
+interface TimeCourseChartProps {
+  points: readonly TimeCoursePoint[]
+  /** Stimulation blocks to shade, experiment seconds on the same clock as the points */
+  blocks: readonly { start: number; end: number }[]
+  className?: string
+}
+
+/**
+ * Power Doppler signal of the region of interest over time, as a change from
+ * its level before the first block (or its mean, without one), with the
+ * stimulation blocks shaded behind it.
+ */
+export function TimeCourseChart({ points, blocks, className }: TimeCourseChartProps) {
+  const onset = blocks[0]?.start ?? -Infinity
+  const before = points.filter(p => p.time < onset)
+  const reference = before.length > 0 ? before : points
+  const baseline = reference.reduce((sum, p) => sum + p.power, 0) / Math.max(1, reference.length)
+  const data = points.map(p => ({ time: p.time, change: baseline > 0 ? 100 * (p.power / baseline - 1) : 0 }))
+  const end = Math.max(blocks[blocks.length - 1]?.end ?? 0, points[points.length - 1]?.time ?? 0)
+
+  return (
+    <ChartContainer config={chartConfig} className={cn("aspect-auto", className)}>
+      <LineChart data={data} margin={{ top: 6, right: 12, bottom: 0, left: -12 }}>
+        <CartesianGrid vertical={false} stroke="#1e293b" />
+        {blocks.map(b => (
+          <ReferenceArea key={b.start} x1={b.start} x2={b.end} fill="#f97316" fillOpacity={0.15} strokeOpacity={0} />
+        ))}
+        <ReferenceLine y={0} stroke="#475569" />
+        <XAxis
+          dataKey="time"
+          type="number"
+          domain={[Math.min(0, points[0]?.time ?? 0), Math.max(1, end)]}
+          tickLine={false}
+          axisLine={false}
+          tickFormatter={(v: number) => `${v.toFixed(0)} s`}
+          minTickGap={24}
+        />
+        <YAxis tickLine={false} axisLine={false} tickCount={4} tickFormatter={(v: number) => `${v.toFixed(0)}%`} />
+        <ChartTooltip
+          cursor={false}
+          content={
+            <ChartTooltipContent
+              hideIndicator
+              labelFormatter={(_, payload) => `${Number(payload[0]?.payload.time).toFixed(0)} s`}
+              formatter={value => `${Number(value) >= 0 ? "+" : ""}${Number(value).toFixed(1)}%`}
+            />
+          }
+        />
+        <Line dataKey="change" stroke="var(--color-change)" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+      </LineChart>
+    </ChartContainer>
+  )
+}
@@ -0,0 +1,51 @@
+"use client"
+
+import { Slider } from "@/components/ui/slider"
+import { cn } from "@/lib/utils"
+
+interface TimelineScrubberProps {
+  /** Earliest reachable sim time */
+  start: number
+  /** Live edge: the furthest sim time reached */
+  end: number
+  time: number
+  /** Formats a sim time for display; defaults to sim seconds */
+  formatTime?: (time: number) => string
+  onSeek: (time: number) => void
+  className?: string
+}
+
+const formatSeconds = (t: number) => `${t.toFixed(2)} s`
+
+export function TimelineScrubber({
+  start,
+  end,
+  time,
+  formatTime = formatSeconds,
+  onSeek,
+  className,
+}: TimelineScrubberProps) {
+  const behind = Math.max(0, end - time)
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-3 rounded-md border border-slate-800 bg-slate-950/85 px-3 py-2 text-xs text-slate-300 backdrop-blur",
+        className,
+      )}
+    >
+      <span className="w-20 tabular-nums">{formatTime(time)}</span>
+      <Slider
+        className="flex-1"
+        min={start}
+        max={Math.max(end, start + 1e-3)}
+        step={1 / 60}
+        value={[Math.min(Math.max(time, start), end)]}
+        onValueChange={([t]) => onSeek(t)}
+        aria-label="Timeline"
+      />
+      <span className="w-20 text-right tabular-nums text-slate-500">
+        {behind < 0.01 ? "live" : `−${formatTime(behind)}`}
+      </span>
+    </div>
+  )
+}
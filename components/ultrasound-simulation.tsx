@@ -1,245 +1,191 @@
 "use client"
 
-import { useEffect, useRef, useCallback } from "react"
-
-// ─── Types ───────────────────────────────────────────────────────────────────
-
-interface Vessel {
-  points: { x: number; y: number }[]
-  radius: number
-  flowSpeed: number
-}
-
-interface RBC {
-  vesselIdx: number
-  t: number
-  size: number
-  rotation: number
-  rotSpeed: number
-  hitByPulses: Set<number>
-  hitTime: number
-  labeled: boolean
-  clumpId: number
-  clumpOffset: number
+import { useEffect, useRef, useCallback, useMemo, useState } from "react"
+
+import { BModePanel } from "@/components/bmode-panel"
+import { ChannelDataPanel } from "@/components/channel-data-panel"
+import { DopplerPanel } from "@/components/doppler-panel"
+import { PowerDopplerPanel } from "@/components/power-doppler-panel"
+import { SimulationControls } from "@/components/simulation-controls"
+import { StimulusPanel } from "@/components/stimulus-panel"
+import { TimelineScrubber } from "@/components/timeline-scrubber"
+import { resolveConfig, type SimulationConfig, type SimulationConfigInput } from "@/lib/simulation/config"
+import {
+  MAX_TIME_SCALE,
+  MIN_TIME_SCALE,
+  POWER_DOPPLER_BUDGET,
+  PROBE_BODY_WIDTH,
+  PROBE_HOUSING_WIDTH,
+  PULSE_WIDTH,
+} from "@/lib/simulation/constants"
+import { SimulationEngine } from "@/lib/simulation/engine"
+import { sphericalSpreading, toDisplay } from "@/lib/simulation/amplitude"
+import { beamOrigin, getBeamShape, transmitFront } from "@/lib/simulation/beam"
+import { createBeamformer, createBModeImage, type BModeImage } from "@/lib/simulation/bmode"
+import { createBModeRenderer, hotColormap } from "@/lib/simulation/bmode-view"
+import { createChannelRenderer } from "@/lib/simulation/channels-view"
+import { createColorFlow, createPwDoppler, getDopplerGate, nyquistVelocity } from "@/lib/simulation/doppler"
+import { createColorFlowRenderer, createSpectrumRenderer } from "@/lib/simulation/doppler-view"
+import { createFieldRenderer, toRgb } from "@/lib/simulation/field-view"
+import { drawDepthScale, drawTimeReadout } from "@/lib/simulation/overlays"
+import {
+  createPowerDoppler,
+  createTimeCourse,
+  getPowerDopplerRoi,
+  type PowerDopplerImage,
+  type TimeCoursePoint,
+} from "@/lib/simulation/power-doppler"
+import { axialResolution, fractionalBandwidth, pulseLength } from "@/lib/simulation/pulse"
+import { addPulseStops, samplePulse } from "@/lib/simulation/pulse-view"
+import { reflectedFront } from "@/lib/simulation/reflections"
+import { refractedWavefront } from "@/lib/simulation/refraction"
+import { buildVesselPaths, getBrainFrame } from "@/lib/simulation/scene"
+import { experimentSeconds, hemodynamicResponse, stimulusBlocks, vesselActivity } from "@/lib/simulation/stimulus"
+import type { SphericalEcho, TissueScatterer } from "@/lib/simulation/types"
+import { formatDuration, formatFrequency } from "@/lib/simulation/units"
+import { cn } from "@/lib/utils"
+import {
+  elementCenterY,
+  getProbeLayout,
+  getSkullBounds,
+  getSkullLayers,
+  getVesselPoint,
+  lerp,
+  lerpWrapped,
+  ptSegDistSq,
+} from "@/lib/simulation/geometry"
+
+/** "BW 44% · Δz 0.39 mm": what a pulse of this length buys */
+function formatPulse(engine: SimulationEngine | null, frequency: number, cycles: number) {
+  if (!engine) return undefined
+  const axial = engine.units.pxToMm(axialResolution(engine.units.wavelengthPx(frequency), cycles))
+  return `BW ${Math.round(fractionalBandwidth(cycles) * 100)}% · Δz ${axial.toFixed(2)} mm`
 }
 
-interface SphericalEcho {
-  cx: number
-  cy: number
-  radius: number
-  opacity: number
-  birthTime: number
+/** Wall-clock ms between imaging panel updates; beamforming every frame would eat the frame budget */
+const PANEL_INTERVAL = 100
+
+/** Rays traced per echo front once it reaches the skull */
+const ECHO_FRONT_SAMPLES = 120
+
+/** Louder echoes (e.g. from clumps) draw a bolder ring as well as a brighter one */
+const echoCoreWidth = (opacity: number) => 0.75 + 1.75 * opacity
+
+/**
+ * Strokes a front given as a polyline, skipping gaps (null points, or points
+ * for which `breaks` holds). Runs that share a quantized opacity go into one
+ * path, so a front costs a handful of strokes rather than one per segment.
+ */
+function strokeFront<T extends { x: number; y: number }>(
+  ctx: CanvasRenderingContext2D,
+  points: (T | null)[],
+  opacity: (p: T) => number,
+  breaks: (p: T) => boolean = () => false,
+) {
+  let open = false
+  for (let k = 1; k < points.length; k++) {
+    const a = points[k - 1], b = points[k]
+    if (!a || !b || breaks(b)) {
+      if (open) { ctx.stroke(); open = false }
+      continue
+    }
+    const alpha = Math.round(opacity(b) * 20) / 20
+    if (open && alpha !== ctx.globalAlpha) { ctx.stroke(); open = false }
+    if (!open) {
+      ctx.globalAlpha = alpha
+      ctx.beginPath(); ctx.moveTo(a.x, a.y)
+      open = true
+    }
+    ctx.lineTo(b.x, b.y)
+  }
+  if (open) ctx.stroke()
+  ctx.globalAlpha = 1
 }
 
-interface PulseWave {
-  id: number
-  x: number
-  opacity: number
+interface UltrasoundSimulationProps {
+  /** Scene seed. The same seed always yields the same vessels, cells and echoes. */
+  seed?: number
+  /** Partial configuration; omitted fields fall back to the defaults. Validated with zod. */
+  config?: SimulationConfigInput
+  /** Sizing is up to the parent; the canvas fills this element. */
+  className?: string
 }
 
-// ─── Constants ───────────────────────────────────────────────────────────────
-
-const WAVE_SPEED = 2.6
-const PROBE_TOP_FRAC = 0.12
-const PROBE_BOT_FRAC = 0.88
-const PROBE_FACE_X = 175
-const PROBE_HOUSING_WIDTH = 32
-const PROBE_BODY_WIDTH = 46
-const PULSE_WIDTH = 3
-const NUM_ELEMENTS = 32
-const SKULL_THICKNESS = 28
-const SKULL_LEFT = PROBE_FACE_X + 4
-const SKULL_RIGHT = SKULL_LEFT + SKULL_THICKNESS
-const MAX_ECHOES = 200
-
-function lerp(a: number, b: number, t: number) {
-  return a + (b - a) * t
-}
+export default function UltrasoundSimulation({ seed, config, className }: UltrasoundSimulationProps) {
+  // Inline config literals get a new identity on every parent render, so key on content
+  const configKey = JSON.stringify(config ?? {})
+  const resolvedConfig = useMemo(() => resolveConfig(JSON.parse(configKey)), [configKey])
+  const configRef = useRef(resolvedConfig)
+  configRef.current = resolvedConfig
+  const [transmit, setTransmit] = useState(resolvedConfig.transmit)
+  const [playback, setPlayback] = useState(resolvedConfig.playback)
+  const [solver, setSolver] = useState(resolvedConfig.solver.mode)
+  // Reconstruction settings only change how the recorded echoes are shown, so they stay out of the engine
+  const [imaging, setImaging] = useState(resolvedConfig.imaging)
+  const imagingRef = useRef(imaging)
+  imagingRef.current = imaging
+  const [doppler, setDoppler] = useState(resolvedConfig.doppler)
+  const dopplerRef = useRef(doppler)
+  dopplerRef.current = doppler
+  const [powerDoppler, setPowerDoppler] = useState(resolvedConfig.powerDoppler)
+  const powerDopplerRef = useRef(powerDoppler)
+  powerDopplerRef.current = powerDoppler
+  // With both on, clicks in the brain place the marker of whichever was switched on last
+  const [placing, setPlacing] = useState<"gate" | "roi">(resolvedConfig.powerDoppler.enabled ? "roi" : "gate")
+  const placingRef = useRef(placing)
+  placingRef.current = placing
+  // Slow-time mode energies of the newest power Doppler ensemble, written by the canvas loop
+  const modeEnergyRef = useRef<ArrayLike<number>>([])
+  const [modeEnergy, setModeEnergy] = useState(modeEnergyRef.current)
+  // Signal of the power Doppler region of interest, likewise
+  const timeCourseRef = useRef<readonly TimeCoursePoint[]>([])
+  const [timeCourse, setTimeCourse] = useState(timeCourseRef.current)
+  const [stimulus, setStimulus] = useState(resolvedConfig.stimulus)
+  const vesselCount = useMemo(() => buildVesselPaths().length, [])
+  const [timeline, setTimeline] = useState({ start: 0, end: 0, time: 0 })
+
+  // Moving through time always pauses first, so the chosen frame stays on screen.
+  // Transmit settings and solver mode are part of the recorded state, so the controls follow them.
+  const travel = useCallback((move: (engine: SimulationEngine) => void) => {
+    const engine = engineRef.current
+    if (!engine) return
+    engine.setPlayback({ paused: true })
+    setPlayback(p => ({ ...p, paused: true }))
+    move(engine)
+    setTransmit({ ...engine.transmit })
+    setSolver(engine.state.solver)
+    setStimulus(engine.state.stimulus)
+    setTimeline(engine.timelineRange)
+  }, [])
 
-function ptSegDistSq(
-  px: number, py: number,
-  ax: number, ay: number,
-  bx: number, by: number
-): number {
-  const dx = bx - ax, dy = by - ay
-  const lenSq = dx * dx + dy * dy
-  if (lenSq === 0) return (px - ax) ** 2 + (py - ay) ** 2
-  const t = Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lenSq))
-  const projX = ax + t * dx, projY = ay + t * dy
-  return (px - projX) ** 2 + (py - projY) ** 2
-}
+  const stepFrame = useCallback((direction: 1 | -1) => {
+    travel(engine => (direction > 0 ? engine.stepForward() : engine.stepBack()))
+  }, [travel])
 
-function getVesselPoint(
-  vessel: Vessel,
-  t: number
-): { x: number; y: number; angle: number } {
-  const pts = vessel.points
-  const total = pts.length - 1
-  const idx = Math.min(Math.floor(t * total), total - 1)
-  const frac = t * total - idx
-  const p0 = pts[idx]
-  const p1 = pts[Math.min(idx + 1, pts.length - 1)]
-  return {
-    x: lerp(p0.x, p1.x, frac),
-    y: lerp(p0.y, p1.y, frac),
-    angle: Math.atan2(p1.y - p0.y, p1.x - p0.x),
-  }
-}
+  const seek = useCallback((time: number) => travel(engine => engine.seek(time)), [travel])
 
-export default function UltrasoundSimulation() {
   const canvasRef = useRef<HTMLCanvasElement>(null)
+  const bmodeCanvasRef = useRef<HTMLCanvasElement>(null)
+  const channelCanvasRef = useRef<HTMLCanvasElement>(null)
+  const spectrumCanvasRef = useRef<HTMLCanvasElement>(null)
+  const powerDopplerCanvasRef = useRef<HTMLCanvasElement>(null)
   const animFrameRef = useRef<number>(0)
   const lastTimeRef = useRef<number>(0)
   // Offscreen canvas for static elements (skull, probe body)
   const staticCanvasRef = useRef<HTMLCanvasElement | null>(null)
   const staticDirtyRef = useRef(true)
-  const stateRef = useRef<{
-    vessels: Vessel[]
-    rbcs: RBC[]
-    echoes: SphericalEcho[]
-    pulses: PulseWave[]
-    nextPulseId: number
-    time: number
-    initialized: boolean
-    dims: { w: number; h: number }
-    elementActivations: number[]
-    hintOpacity: number
-    probeHovered: boolean
-    portrait: boolean
-    screenH: number
-  }>({
-    vessels: [],
-    rbcs: [],
-    echoes: [],
-    pulses: [],
-    nextPulseId: 0,
-    time: 0,
-    initialized: false,
-    dims: { w: 0, h: 0 },
-    elementActivations: new Array(NUM_ELEMENTS).fill(0),
+  const engineRef = useRef<SimulationEngine | null>(null)
+  // View-only state (not part of the simulation model)
+  const viewRef = useRef({
     hintOpacity: 1,
     probeHovered: false,
+    focused: false,
     portrait: false,
     screenH: 0,
   })
 
-  const buildVessels = useCallback((w: number, h: number): Vessel[] => {
-    const vessels: Vessel[] = []
-    const overflow = 100
-    const brainLeft = SKULL_RIGHT + 10
-
-    // Upper vessel: enters from far top-left, diagonal downward-right, stays upper, exits right
-    {
-      const pts: { x: number; y: number }[] = []
-      for (let i = 0; i <= 50; i++) {
-        const frac = i / 50
-        const x = brainLeft - overflow * 0.6 + frac * (w - brainLeft + overflow * 1.2)
-        const y = -overflow + frac * h * 0.35 + Math.sin(frac * Math.PI * 2.4) * h * 0.08
-        pts.push({ x, y })
-      }
-      vessels.push({ points: pts, radius: h * 0.025, flowSpeed: 0.00018 })
-    }
-
-    // Middle-upper: enters from left off-screen at upper-middle, horizontal-right, exits right-upper
-    {
-      const pts: { x: number; y: number }[] = []
-      for (let i = 0; i <= 50; i++) {
-        const frac = i / 50
-        const x = brainLeft - overflow * 0.3 + frac * (w - brainLeft + overflow)
-        const y = h * 0.25 + frac * h * 0.08 + Math.sin(frac * Math.PI * 3) * h * 0.06
-        pts.push({ x, y })
-      }
-      vessels.push({ points: pts, radius: h * 0.04, flowSpeed: 0.0003 })
-    }
-
-    // Middle vessel: enters from bottom-left far off, sharp diagonal up-right, exits top-right
-    {
-      const pts: { x: number; y: number }[] = []
-      for (let i = 0; i <= 50; i++) {
-        const frac = i / 50
-        const x = brainLeft - overflow * 0.7 + frac * (w - brainLeft + overflow * 1.4)
-        const y = h + overflow * 0.7 - frac * (h * 0.95 + overflow * 0.9) + Math.sin(frac * Math.PI * 2.6) * h * 0.07
-        pts.push({ x, y })
-      }
-      vessels.push({ points: pts, radius: h * 0.028, flowSpeed: 0.00022 })
-    }
-
-    // Middle-lower: enters from left at lower-middle, horizontal-right, exits right-lower
-    {
-      const pts: { x: number; y: number }[] = []
-      for (let i = 0; i <= 50; i++) {
-        const frac = i / 50
-        const x = brainLeft - overflow * 0.2 + frac * (w - brainLeft + overflow)
-        const y = h * 0.68 + frac * h * 0.12 + Math.sin(frac * Math.PI * 2.8) * h * 0.07
-        pts.push({ x, y })
-      }
-      vessels.push({ points: pts, radius: h * 0.015, flowSpeed: 0.00012 })
-    }
-
-    // Lower vessel: enters from far bottom-left, diagonal upward-right, stays lower, exits right-bottom
-    {
-      const pts: { x: number; y: number }[] = []
-      for (let i = 0; i <= 50; i++) {
-        const frac = i / 50
-        const x = brainLeft - overflow * 0.5 + frac * (w - brainLeft + overflow * 1.1)
-        const y = h + overflow * 0.5 - frac * h * 0.25 + Math.sin(frac * Math.PI * 2.2) * h * 0.08
-        pts.push({ x, y })
-      }
-      vessels.push({ points: pts, radius: h * 0.016, flowSpeed: 0.00015 })
-    }
-
-    return vessels
-  }, [])
-
-  const buildRBCs = useCallback((): RBC[] => {
-    const rbcs: RBC[] = []
-    const distribution = [
-      { solo: 1, clumps: [2] },
-      { solo: 1, clumps: [3] },
-      { solo: 2, clumps: [] },
-      { solo: 1, clumps: [2] },
-      { solo: 1, clumps: [] },
-    ]
-    let firstLabeled = false
-    let clumpIdCounter = 0
-
-    for (let vi = 0; vi < 5; vi++) {
-      const cfg = distribution[vi]
-      for (let i = 0; i < cfg.solo; i++) {
-        const labeled = !firstLabeled && vi === 0 && i === 0
-        if (labeled) firstLabeled = true
-        rbcs.push({
-          vesselIdx: vi,
-          t: 0.4 + (i / Math.max(1, cfg.solo)) * 0.4 + Math.random() * 0.1,
-          size: 3 + Math.random() * 2.5,
-          rotation: Math.random() * Math.PI * 2,
-          rotSpeed: (Math.random() - 0.5) * 0.02,
-          hitByPulses: new Set(), hitTime: 0, labeled,
-          clumpId: -1, clumpOffset: 0,
-        })
-      }
-      for (const clumpSize of cfg.clumps) {
-        const clumpCenter = 0.55 + Math.random() * 0.3
-        const cid = clumpIdCounter++
-        for (let j = 0; j < clumpSize; j++) {
-          const offset = (j - (clumpSize - 1) / 2) * 0.012
-          rbcs.push({
-            vesselIdx: vi,
-            t: clumpCenter + offset,
-            size: 3 + Math.random() * 2,
-            rotation: Math.random() * Math.PI * 2,
-            rotSpeed: (Math.random() - 0.5) * 0.015,
-            hitByPulses: new Set(), hitTime: 0, labeled: false,
-            clumpId: cid, clumpOffset: offset,
-          })
-        }
-      }
-    }
-    return rbcs
-  }, [])
-
   // Pre-render static elements (skull, probe body) to an offscreen canvas
-  const renderStatic = useCallback((w: number, h: number, dpr: number, portrait: boolean) => {
+  const renderStatic = useCallback((w: number, h: number, dpr: number, portrait: boolean, config: SimulationConfig) => {
     if (!staticCanvasRef.current) {
       staticCanvasRef.current = document.createElement("canvas")
     }
@@ -249,10 +195,10 @@ export default function UltrasoundSimulation() {
     const ctx = offscreen.getContext("2d")!
     ctx.scale(dpr, dpr)
 
-    const probeTop = h * PROBE_TOP_FRAC
-    const probeBot = h * PROBE_BOT_FRAC
-    const probeH = probeBot - probeTop
-    const faceX = PROBE_FACE_X
+    const { faceX, numElements, probeTop, probeBot, probeH, elementH, elementGap } = getProbeLayout(h, config.probe)
+    const skull = getSkullBounds(config)
+    const layers = getSkullLayers(config)
+    const showLabels = config.interaction.labels && !portrait
     const housingLeft = faceX - PROBE_HOUSING_WIDTH
     const bodyLeft = housingLeft - PROBE_BODY_WIDTH
     const midY = (probeTop + probeBot) / 2
@@ -271,91 +217,93 @@ export default function UltrasoundSimulation() {
     const cableExitX = handleLeft
 
     // ─── Skull ───────────────────────────────────────────────────
-    const outerW = SKULL_THICKNESS * 0.3
-    const outerGrad = ctx.createLinearGradient(SKULL_LEFT, 0, SKULL_LEFT + outerW, 0)
-    outerGrad.addColorStop(0, "#d4c9b8")
-    outerGrad.addColorStop(0.5, "#c8bba8")
-    outerGrad.addColorStop(1, "#bfb198")
-    ctx.fillStyle = outerGrad
-    ctx.fillRect(SKULL_LEFT, 0, outerW, h)
-
-    const diploeLeft = SKULL_LEFT + outerW
-    const diploeW = SKULL_THICKNESS * 0.45
-    const diploeGrad = ctx.createLinearGradient(diploeLeft, 0, diploeLeft + diploeW, 0)
-    diploeGrad.addColorStop(0, "#b5a58f")
-    diploeGrad.addColorStop(0.5, "#c9b99e")
-    diploeGrad.addColorStop(1, "#b5a58f")
-    ctx.fillStyle = diploeGrad
-    ctx.fillRect(diploeLeft, 0, diploeW, h)
-
-    // Spongy pores (static -- drawn once)
-    ctx.fillStyle = "rgba(80,65,48,0.35)"
-    for (let py = 3; py < h - 3; py += 6) {
-      for (let px = diploeLeft + 2; px < diploeLeft + diploeW - 2; px += 7) {
-        const offsetX = ((py / 6) % 2) * 3
-        const rx = 1.0 + Math.sin(px * 0.7 + py * 0.3) * 0.6
-        const ry = 0.8 + Math.cos(px * 0.5 + py * 0.8) * 0.4
-        ctx.beginPath()
-        ctx.ellipse(px + offsetX, py, rx, ry, 0, 0, Math.PI * 2)
-        ctx.fill()
+    if (skull.thickness > 0) {
+      const outerW = layers.outer.right - layers.outer.left
+      const outerGrad = ctx.createLinearGradient(skull.left, 0, skull.left + outerW, 0)
+      outerGrad.addColorStop(0, "#d4c9b8")
+      outerGrad.addColorStop(0.5, "#c8bba8")
+      outerGrad.addColorStop(1, "#bfb198")
+      ctx.fillStyle = outerGrad
+      ctx.fillRect(skull.left, 0, outerW, h)
+
+      const diploeLeft = layers.diploe.left
+      const diploeW = layers.diploe.right - layers.diploe.left
+      const diploeGrad = ctx.createLinearGradient(diploeLeft, 0, diploeLeft + diploeW, 0)
+      diploeGrad.addColorStop(0, "#b5a58f")
+      diploeGrad.addColorStop(0.5, "#c9b99e")
+      diploeGrad.addColorStop(1, "#b5a58f")
+      ctx.fillStyle = diploeGrad
+      ctx.fillRect(diploeLeft, 0, diploeW, h)
+
+      // Spongy pores (static -- drawn once)
+      ctx.fillStyle = "rgba(80,65,48,0.35)"
+      for (let py = 3; py < h - 3; py += 6) {
+        for (let px = diploeLeft + 2; px < diploeLeft + diploeW - 2; px += 7) {
+          const offsetX = ((py / 6) % 2) * 3
+          const rx = 1.0 + Math.sin(px * 0.7 + py * 0.3) * 0.6
+          const ry = 0.8 + Math.cos(px * 0.5 + py * 0.8) * 0.4
+          ctx.beginPath()
+          ctx.ellipse(px + offsetX, py, rx, ry, 0, 0, Math.PI * 2)
+          ctx.fill()
+        }
       }
-    }
 
-    const innerLeft = diploeLeft + diploeW
-    const innerW = SKULL_THICKNESS * 0.25
-    const innerGrad = ctx.createLinearGradient(innerLeft, 0, innerLeft + innerW, 0)
-    innerGrad.addColorStop(0, "#bfb198")
-    innerGrad.addColorStop(0.5, "#c5b7a3")
-    innerGrad.addColorStop(1, "#a89880")
-    ctx.fillStyle = innerGrad
-    ctx.fillRect(innerLeft, 0, innerW, h)
-
-    // Bone edge lines
-    ctx.strokeStyle = "rgba(180,165,140,0.6)"
-    ctx.lineWidth = 1
-    ctx.beginPath(); ctx.moveTo(SKULL_LEFT, 0); ctx.lineTo(SKULL_LEFT, h); ctx.stroke()
-    ctx.strokeStyle = "rgba(120,100,75,0.5)"
-    ctx.lineWidth = 1.2
-    ctx.beginPath(); ctx.moveTo(SKULL_RIGHT, 0); ctx.lineTo(SKULL_RIGHT, h); ctx.stroke()
-
-    ctx.strokeStyle = "rgba(100,85,65,0.3)"
-    ctx.lineWidth = 0.5
-    ctx.setLineDash([2, 3])
-    ctx.beginPath(); ctx.moveTo(diploeLeft, 0); ctx.lineTo(diploeLeft, h); ctx.stroke()
-    ctx.beginPath(); ctx.moveTo(innerLeft, 0); ctx.lineTo(innerLeft, h); ctx.stroke()
-    ctx.setLineDash([])
-
-    // Skull label
-    if (!portrait) {
-    ctx.save()
-    ctx.font = "600 11px system-ui, sans-serif"
-    ctx.textAlign = "left"
-    ctx.textBaseline = "middle"
-    const skullLabelX = SKULL_RIGHT + 12
-    const skullLabelY = h - 28
-    ctx.strokeStyle = "rgba(200,180,150,0.35)"
-    ctx.lineWidth = 0.8
-    ctx.setLineDash([3, 2])
-    ctx.beginPath(); ctx.moveTo(SKULL_RIGHT + 1, skullLabelY); ctx.lineTo(skullLabelX - 4, skullLabelY); ctx.stroke()
-    ctx.setLineDash([])
-    const skullText = "Skull"
-    const skullTm = ctx.measureText(skullText)
-    ctx.fillStyle = "rgba(10,8,10,0.9)"
-    ctx.beginPath(); ctx.roundRect(skullLabelX - 7, skullLabelY - 11, skullTm.width + 14, 22, 3); ctx.fill()
-    ctx.strokeStyle = "rgba(200,180,150,0.4)"
-    ctx.lineWidth = 0.8
-    ctx.beginPath(); ctx.roundRect(skullLabelX - 7, skullLabelY - 11, skullTm.width + 14, 22, 3); ctx.stroke()
-    ctx.fillStyle = "rgba(210,195,170,0.9)"
-    ctx.fillText(skullText, skullLabelX, skullLabelY)
-    ctx.restore()
+      const innerLeft = layers.inner.left
+      const innerW = layers.inner.right - layers.inner.left
+      const innerGrad = ctx.createLinearGradient(innerLeft, 0, innerLeft + innerW, 0)
+      innerGrad.addColorStop(0, "#bfb198")
+      innerGrad.addColorStop(0.5, "#c5b7a3")
+      innerGrad.addColorStop(1, "#a89880")
+      ctx.fillStyle = innerGrad
+      ctx.fillRect(innerLeft, 0, innerW, h)
+
+      // Bone edge lines
+      ctx.strokeStyle = "rgba(180,165,140,0.6)"
+      ctx.lineWidth = 1
+      ctx.beginPath(); ctx.moveTo(skull.left, 0); ctx.lineTo(skull.left, h); ctx.stroke()
+      ctx.strokeStyle = "rgba(120,100,75,0.5)"
+      ctx.lineWidth = 1.2
+      ctx.beginPath(); ctx.moveTo(skull.right, 0); ctx.lineTo(skull.right, h); ctx.stroke()
+
+      ctx.strokeStyle = "rgba(100,85,65,0.3)"
+      ctx.lineWidth = 0.5
+      ctx.setLineDash([2, 3])
+      ctx.beginPath(); ctx.moveTo(diploeLeft, 0); ctx.lineTo(diploeLeft, h); ctx.stroke()
+      ctx.beginPath(); ctx.moveTo(innerLeft, 0); ctx.lineTo(innerLeft, h); ctx.stroke()
+      ctx.setLineDash([])
+
+      // Skull label
+      if (showLabels) {
+      ctx.save()
+      ctx.font = "600 11px system-ui, sans-serif"
+      ctx.textAlign = "left"
+      ctx.textBaseline = "middle"
+      const skullLabelX = skull.right + 12
+      const skullLabelY = h - 28
+      ctx.strokeStyle = "rgba(200,180,150,0.35)"
+      ctx.lineWidth = 0.8
+      ctx.setLineDash([3, 2])
+      ctx.beginPath(); ctx.moveTo(skull.right + 1, skullLabelY); ctx.lineTo(skullLabelX - 4, skullLabelY); ctx.stroke()
+      ctx.setLineDash([])
+      const skullText = "Skull"
+      const skullTm = ctx.measureText(skullText)
+      ctx.fillStyle = "rgba(10,8,10,0.9)"
+      ctx.beginPath(); ctx.roundRect(skullLabelX - 7, skullLabelY - 11, skullTm.width + 14, 22, 3); ctx.fill()
+      ctx.strokeStyle = "rgba(200,180,150,0.4)"
+      ctx.lineWidth = 0.8
+      ctx.beginPath(); ctx.roundRect(skullLabelX - 7, skullLabelY - 11, skullTm.width + 14, 22, 3); ctx.stroke()
+      ctx.fillStyle = "rgba(210,195,170,0.9)"
+      ctx.fillText(skullText, skullLabelX, skullLabelY)
+      ctx.restore()
+      }
     }
 
     // Coupling gel
-    const gelGrad = ctx.createLinearGradient(PROBE_FACE_X, 0, SKULL_LEFT, 0)
+    const gelGrad = ctx.createLinearGradient(faceX, 0, skull.left, 0)
     gelGrad.addColorStop(0, "rgba(56,189,248,0.12)")
     gelGrad.addColorStop(1, "rgba(56,189,248,0.04)")
     ctx.fillStyle = gelGrad
-    ctx.fillRect(PROBE_FACE_X, probeTop, SKULL_LEFT - PROBE_FACE_X, probeH)
+    ctx.fillRect(faceX, probeTop, skull.left - faceX, probeH)
 
     // ─── Probe body (cable, handle, grip, neck, head, housing) ──
     // Cable
@@ -457,18 +405,15 @@ export default function UltrasoundSimulation() {
     ctx.fillRect(housingLeft, probeTop, backingW, probeH)
 
     // Wiring
-    const elementGap = 2.5
-    const totalGaps = (NUM_ELEMENTS - 1) * elementGap
-    const elementH = (probeH - totalGaps) / NUM_ELEMENTS
     const elementLeft = faceX - elementW
     ctx.strokeStyle = "rgba(56,189,248,0.06)"; ctx.lineWidth = 0.5
-    for (let i = 0; i < NUM_ELEMENTS; i += 4) {
+    for (let i = 0; i < numElements; i += 4) {
       const ey = probeTop + i * (elementH + elementGap) + elementH / 2
       ctx.beginPath(); ctx.moveTo(housingLeft + 4, ey); ctx.lineTo(elementLeft, ey); ctx.stroke()
     }
 
     // Probe label
-    if (!portrait) {
+    if (showLabels) {
     ctx.save()
     ctx.font = "600 11px system-ui, sans-serif"
     ctx.textAlign = "center"; ctx.textBaseline = "middle"
@@ -504,216 +449,334 @@ export default function UltrasoundSimulation() {
     const ctx = canvas.getContext("2d", { alpha: false })
     if (!ctx) return
 
+    const engine = engineRef.current ??= new SimulationEngine({ seed, config: configRef.current })
+    const view = viewRef.current
+    const drawPressureField = createFieldRenderer()
+    const beamform = createBeamformer()
+    const drawBMode = createBModeRenderer()
+    const drawChannels = createChannelRenderer()
+    // Doppler noise and blood come from the engine's seed, so they are rebuilt whenever it is reseeded
+    const createDopplers = (engineSeed: number) => ({
+      seed: engineSeed,
+      spectrogramAt: createPwDoppler(engineSeed),
+      colorFlowAt: createColorFlow(engineSeed),
+      powerDopplerAt: createPowerDoppler(engineSeed),
+    })
+    let dopplers = createDopplers(engine.seed)
+    const drawSpectrum = createSpectrumRenderer()
+    const drawColorFlow = createColorFlowRenderer()
+    const timeCourseAt = createTimeCourse()
+    const drawPowerDoppler = createBModeRenderer(hotColormap)
+    let bmodeImage: { region: string; image: BModeImage } | null = null
+    let tissuePath: { tissue: readonly TissueScatterer[]; path: Path2D } | null = null
+    let panelsShownAt = -Infinity
+    // What each panel canvas last showed, so unchanged frames are not redrawn
+    const panelKeys = new WeakMap<HTMLCanvasElement, string>()
+
+    /** Sizes a panel's canvas to its box and returns a context to draw it with; null if hidden or up to date */
+    const preparePanel = (panel: HTMLCanvasElement | null, key: string) => {
+      if (!panel) return null
+      const rect = panel.getBoundingClientRect()
+      if (rect.width === 0 || rect.height === 0) return null
+      const fullKey = [key, rect.width, rect.height, currentDpr].join()
+      if (panelKeys.get(panel) === fullKey) return null
+      panelKeys.set(panel, fullKey)
+      const width = Math.round(rect.width * currentDpr)
+      const height = Math.round(rect.height * currentDpr)
+      if (panel.width !== width) panel.width = width
+      if (panel.height !== height) panel.height = height
+      const panelCtx = panel.getContext("2d")!
+      panelCtx.setTransform(currentDpr, 0, 0, currentDpr, 0, 0)
+      return { ctx: panelCtx, width: rect.width, height: rect.height }
+    }
     let currentDpr = 1
 
     const resize = () => {
       currentDpr = window.devicePixelRatio || 1
       const rect = canvas.getBoundingClientRect()
+      if (rect.width === 0 || rect.height === 0) return
       canvas.width = rect.width * currentDpr
       canvas.height = rect.height * currentDpr
       ctx.setTransform(currentDpr, 0, 0, currentDpr, 0, 0)
 
       const screenW = rect.width
       const screenH = rect.height
-      const s = stateRef.current
-      s.portrait = screenH > screenW
-      s.screenH = screenH
-      const simW = s.portrait ? screenH : screenW
-      const simH = s.portrait ? screenW : screenH
-      s.dims = { w: simW, h: simH }
-      s.vessels = buildVessels(simW, simH)
-      s.rbcs = buildRBCs()
-      s.echoes = []
-      s.pulses = [{ id: s.nextPulseId++, x: PROBE_FACE_X, opacity: 1 }]
-      s.time = 0
-      s.initialized = true
+      view.portrait = screenH > screenW
+      view.screenH = screenH
+      const simW = view.portrait ? screenH : screenW
+      const simH = view.portrait ? screenW : screenH
+      engine.resize(simW, simH)
       staticDirtyRef.current = true
     }
 
     resize()
-    window.addEventListener("resize", resize)
+    // Size to the container rather than the window so several instances can share a page
+    const resizeObserver = new ResizeObserver(resize)
+    resizeObserver.observe(canvas)
 
     const firePulse = () => {
-      const s = stateRef.current
-      if (!s.initialized) return
-      s.pulses.push({ id: s.nextPulseId++, x: PROBE_FACE_X - 3, opacity: 1 })
-      s.hintOpacity = 0
+      if (engine.firePulse()) view.hintOpacity = 0
     }
 
-    const isOverProbe = (clientX: number, clientY: number) => {
+    const toSim = (clientX: number, clientY: number) => {
       const rect = canvas.getBoundingClientRect()
       const sx = clientX - rect.left
       const sy = clientY - rect.top
-      const s = stateRef.current
-      // Map screen coords to simulation coords
-      const simX = s.portrait ? s.screenH - sy : sx
-      const simY = s.portrait ? sx : sy
-      const simH = s.dims.h
-      const probeTop = simH * PROBE_TOP_FRAC - 6
-      const probeBot = simH * PROBE_BOT_FRAC + 6
-      return simX <= PROBE_FACE_X && simY >= probeTop && simY <= probeBot
+      return { x: view.portrait ? view.screenH - sy : sx, y: view.portrait ? sx : sy }
+    }
+
+    const isOverProbe = (clientX: number, clientY: number) => {
+      const { x, y } = toSim(clientX, clientY)
+      const { faceX, probeTop, probeBot } = getProbeLayout(engine.state.dims.h, engine.config.probe)
+      return x <= faceX && y >= probeTop - 6 && y <= probeBot + 6
+    }
+
+    // With Doppler or power Doppler on, a click in the brain moves its marker there instead of firing
+    const placeGate = (clientX: number, clientY: number) => {
+      const { x, y } = toSim(clientX, clientY)
+      if (x < engine.media[engine.media.length - 1].left || x > engine.state.dims.w) return false
+      const { faceX, probeTop, probeBot } = getProbeLayout(engine.state.dims.h, engine.config.probe)
+      const gate = { depth: engine.units.pxToMm(x - faceX), lateral: engine.units.pxToMm(y - (probeTop + probeBot) / 2) }
+      setDoppler(d => ({ ...d, gate }))
+      return true
+    }
+
+    const placeRoi = (clientX: number, clientY: number) => {
+      const { x, y } = toSim(clientX, clientY)
+      if (x < engine.media[engine.media.length - 1].left || x > engine.state.dims.w) return false
+      const { faceX, probeTop, probeBot } = getProbeLayout(engine.state.dims.h, engine.config.probe)
+      const roi = { depth: engine.units.pxToMm(x - faceX), lateral: engine.units.pxToMm(y - (probeTop + probeBot) / 2) }
+      setPowerDoppler(p => ({ ...p, roi }))
+      return true
+    }
+
+    const placeMarker = (clientX: number, clientY: number) => {
+      const gate = dopplerRef.current.enabled, roi = powerDopplerRef.current.enabled
+      if (gate && (!roi || placingRef.current === "gate")) return placeGate(clientX, clientY)
+      return roi && placeRoi(clientX, clientY)
     }
 
     const onMouseMove = (e: MouseEvent) => {
-      const hovered = isOverProbe(e.clientX, e.clientY)
-      stateRef.current.probeHovered = hovered
+      const hovered = engine.config.interaction.pointer && isOverProbe(e.clientX, e.clientY)
+      view.probeHovered = hovered
       canvas.style.cursor = hovered ? "pointer" : "default"
     }
     const onMouseLeave = () => {
-      stateRef.current.probeHovered = false
+      view.probeHovered = false
       canvas.style.cursor = "default"
     }
 
-    const onKey = (e: KeyboardEvent) => { if (e.code === "Space") { e.preventDefault(); firePulse() } }
-    const onClick = () => firePulse()
-    window.addEventListener("keydown", onKey)
+    const onKey = (e: KeyboardEvent) => {
+      if (!engine.config.interaction.keyboard || e.metaKey || e.ctrlKey || e.altKey) return
+      switch (e.code) {
+        case "Space":
+          firePulse()
+          break
+        case "KeyK":
+          setPlayback(p => ({ ...p, paused: !p.paused }))
+          break
+        case "Period":
+        case "ArrowRight":
+          stepFrame(1)
+          break
+        case "Comma":
+        case "ArrowLeft":
+          stepFrame(-1)
+          break
+        case "BracketLeft":
+          setPlayback(p => ({ ...p, timeScale: Math.max(MIN_TIME_SCALE, p.timeScale / 2) }))
+          break
+        case "BracketRight":
+          setPlayback(p => ({ ...p, timeScale: Math.min(MAX_TIME_SCALE, p.timeScale * 2) }))
+          break
+        default:
+          return
+      }
+      e.preventDefault()
+    }
+    const onClick = (e: MouseEvent) => {
+      if (engine.config.interaction.pointer && !placeMarker(e.clientX, e.clientY)) firePulse()
+    }
+    const onTouch = (e: TouchEvent) => {
+      const touch = e.touches[0]
+      if (engine.config.interaction.pointer && !(touch && placeMarker(touch.clientX, touch.clientY))) firePulse()
+    }
+    const onFocus = () => { view.focused = true }
+    const onBlur = () => { view.focused = false }
+    // Keyboard input only reaches the instance that has focus
+    canvas.addEventListener("keydown", onKey)
+    canvas.addEventListener("focus", onFocus)
+    canvas.addEventListener("blur", onBlur)
     canvas.addEventListener("click", onClick)
-    canvas.addEventListener("touchstart", onClick, { passive: true })
+    canvas.addEventListener("touchstart", onTouch, { passive: true })
     canvas.addEventListener("mousemove", onMouseMove)
     canvas.addEventListener("mouseleave", onMouseLeave)
 
     const animate = (timestamp: number) => {
-      const s = stateRef.current
-      if (!s.initialized) {
+      if (!engine.isInitialized) {
         lastTimeRef.current = timestamp
         animFrameRef.current = requestAnimationFrame(animate)
         return
       }
 
       const rawDt = lastTimeRef.current ? (timestamp - lastTimeRef.current) / 1000 : 0.016
-      const dt = Math.min(rawDt, 0.033)
+      const dt = Math.min(rawDt, 0.25)
       lastTimeRef.current = timestamp
 
-      const { w, h } = s.dims
-      s.time += dt
-
-      const probeTop = h * PROBE_TOP_FRAC
-      const probeBot = h * PROBE_BOT_FRAC
-      const probeH = probeBot - probeTop
-
       // ─── Update ──────────────────────────────────────────────
-      for (const rbc of s.rbcs) {
-        rbc.t += s.vessels[rbc.vesselIdx].flowSpeed
-        if (rbc.t > 1) rbc.t -= 1
-        rbc.rotation += rbc.rotSpeed
-      }
-
-      for (let pi = s.pulses.length - 1; pi >= 0; pi--) {
-        const pulse = s.pulses[pi]
-        pulse.x += WAVE_SPEED
-        for (const rbc of s.rbcs) {
-          if (rbc.hitByPulses.has(pulse.id)) continue
-          const pos = getVesselPoint(s.vessels[rbc.vesselIdx], rbc.t)
-          if (pos.x >= SKULL_RIGHT + rbc.size && pos.x <= w && pos.y >= 0 && pos.y <= h &&
-              pos.y >= probeTop && pos.y <= probeBot &&
-              pulse.x >= pos.x - rbc.size && pulse.x <= pos.x + rbc.size + WAVE_SPEED * 2) {
-            rbc.hitByPulses.add(pulse.id)
-            rbc.hitTime = s.time
-            if (s.echoes.length < MAX_ECHOES) {
-              s.echoes.push({ cx: pos.x, cy: pos.y, radius: rbc.size + 1, opacity: 0.9, birthTime: s.time })
-            }
-          }
-        }
-        if (pulse.x > w + 20) s.pulses.splice(pi, 1)
-      }
-
-      for (let i = s.echoes.length - 1; i >= 0; i--) {
-        const e = s.echoes[i]
-        e.radius += WAVE_SPEED
-        e.opacity = Math.max(0, 0.9 - (s.time - e.birthTime) * 0.12)
-        if (e.opacity < 0.02 || e.radius > w * 1.5) {
-          s.echoes.splice(i, 1)
-        }
-      }
-
-      // Element detection
-      const elementGap = 2.5
-      const totalGaps = (NUM_ELEMENTS - 1) * elementGap
-      const elementH = (probeH - totalGaps) / NUM_ELEMENTS
+      const alpha = engine.advance(dt)
+      const s = engine.state
+      if (dopplers.seed !== engine.seed) dopplers = createDopplers(engine.seed)
+      const { spectrogramAt, colorFlowAt, powerDopplerAt } = dopplers
+      const { w, h } = s.dims
+      const { colors, interaction } = engine.config
+      const layout = getProbeLayout(h, engine.config.probe)
+      const { faceX, numElements, probeTop, probeBot, probeH, elementH, elementGap } = layout
+      const brain = getBrainFrame(w, h, engine.config)
+      // Blood flow in each vessel as the stimulus has it, for every Doppler mode
+      const activity = vesselActivity(s.vessels, s.stimulus, experimentSeconds(s.time - s.stimulusStart))
 
-      for (let i = 0; i < NUM_ELEMENTS; i++) {
-        s.elementActivations[i] = Math.max(0, s.elementActivations[i] - 0.025)
-      }
-
-      for (const echo of s.echoes) {
-        if (echo.opacity < 0.05 || echo.cx < PROBE_FACE_X) continue
-        const dx = echo.cx - PROBE_FACE_X
-        for (let i = 0; i < NUM_ELEMENTS; i++) {
-          const eCenterY = probeTop + i * (elementGap + elementH) + elementH / 2
-          const dy = echo.cy - eCenterY
-          const distToElement = Math.sqrt(dx * dx + dy * dy)
-          if (distToElement <= echo.radius && distToElement > echo.radius - WAVE_SPEED) {
-            s.elementActivations[i] = Math.min(4, s.elementActivations[i] + 0.6)
-          }
-        }
-      }
+      // View animations follow simulated time, so they freeze and slow down with the model
+      const simDt = engine.playback.paused ? 0 : dt * engine.playback.timeScale
 
       // Fade hint after echoes finish
-      if (s.pulses.length === 0 && s.echoes.length === 0 && s.hintOpacity < 1) {
-        s.hintOpacity = Math.min(1, s.hintOpacity + dt * 0.4)
+      if (engine.transmit.auto) {
+        view.hintOpacity = 0
+      } else if (!engine.isActive() && view.hintOpacity < 1) {
+        view.hintOpacity = Math.min(1, view.hintOpacity + simDt * 0.4)
       }
 
       // ─── DRAW ──────────────────────────────────────────────────
 
       // Set up coordinate transform (rotation for portrait mode)
       ctx.setTransform(currentDpr, 0, 0, currentDpr, 0, 0)
-      if (s.portrait) {
-        ctx.translate(0, s.screenH)
+      if (view.portrait) {
+        ctx.translate(0, view.screenH)
         ctx.rotate(-Math.PI / 2)
       }
 
-      ctx.fillStyle = "#0a0a0f"
+      ctx.fillStyle = colors.background
       ctx.fillRect(0, 0, w, h)
 
+      // Tissue scatterers, built once per scene and stretched away from the skull with the pulsation
+      if (s.tissue.length > 0) {
+        if (tissuePath?.tissue !== s.tissue) {
+          const path = new Path2D()
+          for (const t of s.tissue) path.rect(t.x - 0.75, t.y - 0.75, 1.5, 1.5)
+          tissuePath = { tissue: s.tissue, path }
+        }
+        ctx.save()
+        ctx.translate(brain.left, 0)
+        ctx.scale(1 + s.tissueShift / brain.width, 1)
+        ctx.translate(-brain.left, 0)
+        ctx.fillStyle = colors.tissue
+        ctx.fill(tissuePath.path)
+        ctx.restore()
+      }
+
       // Vessels (no shadowBlur -- just layered strokes)
       for (const vessel of s.vessels) {
         const pts = vessel.points
         const r = vessel.radius
 
         ctx.lineWidth = r * 2 + 6
-        ctx.strokeStyle = "rgba(55,20,28,0.5)"
+        ctx.strokeStyle = colors.vesselHalo
         ctx.lineCap = "round"; ctx.lineJoin = "round"
         ctx.beginPath(); ctx.moveTo(pts[0].x, pts[0].y)
         for (let i = 1; i < pts.length; i++) ctx.lineTo(pts[i].x, pts[i].y)
         ctx.stroke()
 
         ctx.lineWidth = r * 2 + 3
-        ctx.strokeStyle = "rgba(70,28,35,0.6)"
+        ctx.strokeStyle = colors.vesselWall
         ctx.beginPath(); ctx.moveTo(pts[0].x, pts[0].y)
         for (let i = 1; i < pts.length; i++) ctx.lineTo(pts[i].x, pts[i].y)
         ctx.stroke()
 
         ctx.lineWidth = r * 2
-        ctx.strokeStyle = "rgba(40,10,15,0.85)"
+        ctx.strokeStyle = colors.vesselLumen
         ctx.beginPath(); ctx.moveTo(pts[0].x, pts[0].y)
         for (let i = 1; i < pts.length; i++) ctx.lineTo(pts[i].x, pts[i].y)
         ctx.stroke()
         ctx.lineCap = "butt"; ctx.lineJoin = "miter"
       }
 
-      // Echoes (no shadowBlur -- use double-stroke for glow effect)
-      for (const echo of s.echoes) {
-        if (echo.cx + echo.radius < 0 || echo.cx - echo.radius > w ||
-            echo.cy + echo.radius < 0 || echo.cy - echo.radius > h) continue
+      // Stimulated vessels flush as they respond, and every vessel shows its number to choose them by
+      if (s.stimulus.enabled) {
+        const response = hemodynamicResponse(s.stimulus, experimentSeconds(s.time - s.stimulusStart))
+        const brainLeft = engine.media[engine.media.length - 1].left
+        ctx.save()
+        ctx.lineCap = "round"; ctx.lineJoin = "round"
+        ctx.font = "600 11px system-ui, sans-serif"
+        ctx.textAlign = "center"; ctx.textBaseline = "middle"
+        s.vessels.forEach((vessel, i) => {
+          const pts = vessel.points
+          const stimulated = s.stimulus.vessels.includes(i)
+          if (stimulated && response > 0) {
+            ctx.lineWidth = vessel.radius * 2
+            ctx.strokeStyle = `rgba(249,115,22,${(0.5 * Math.min(1, response)).toFixed(3)})`
+            ctx.beginPath(); ctx.moveTo(pts[0].x, pts[0].y)
+            for (let j = 1; j < pts.length; j++) ctx.lineTo(pts[j].x, pts[j].y)
+            ctx.stroke()
+          }
+          // Where the vessel first shows in the brain
+          const at = pts.find(p => p.x > brainLeft + 16 && p.y > 16 && p.y < h - 16)
+          if (!at) return
+          ctx.fillStyle = stimulated ? "rgba(253,186,116,0.95)" : "rgba(203,213,225,0.8)"
+          ctx.fillText(`${i + 1}`, at.x, at.y - vessel.radius - 8)
+        })
+        ctx.restore()
+      }
 
-        ctx.globalAlpha = echo.opacity * 0.3
-        ctx.strokeStyle = "#5ec8fa"
-        ctx.lineWidth = 4
-        ctx.beginPath(); ctx.arc(echo.cx, echo.cy, echo.radius, 0, Math.PI * 2); ctx.stroke()
+      // Colour flow over the vessels, estimated along the current steering
+      if (dopplerRef.current.colorFlow) {
+        const { steering } = getBeamShape(engine.transmit, engine.units)
+        const map = colorFlowAt(s.time, s.vessels, activity, faceX, probeTop, w - faceX, probeH, {
+          prf: dopplerRef.current.prf, frequency: engine.transmit.frequency,
+          ux: Math.cos(steering), uy: Math.sin(steering),
+        }, engine.units)
+        drawColorFlow(ctx, map)
+      }
 
-        ctx.globalAlpha = echo.opacity * 0.7
-        ctx.strokeStyle = "#38bdf8"
-        ctx.lineWidth = 1.5
-        ctx.beginPath(); ctx.arc(echo.cx, echo.cy, echo.radius, 0, Math.PI * 2); ctx.stroke()
+      // Pulses and echoes carry the transmitted burst: shorter at higher frequencies and fewer cycles,
+      // so echoes from scatterers closer than half its length overlap into one
+      const wavelength = engine.units.wavelengthPx(engine.transmit.frequency)
+      const burst = samplePulse(wavelength, engine.transmit.cycles)
+      const echoGlowWidth = Math.max(4, pulseLength(wavelength, engine.transmit.cycles))
+      const rarefaction = toRgb(ctx, colors.pressureNegative)
+      const echoRgb = toRgb(ctx, colors.echo)
 
-        ctx.globalAlpha = 1
+      // Echoes (no shadowBlur -- use double-stroke for glow effect)
+      const brainLeft = engine.media[engine.media.length - 1].left
+      const refracted: [SphericalEcho, number][] = []
+      for (const echo of s.echoes) {
+        const radius = lerp(echo.prevRadius, echo.radius, alpha)
+        if (echo.cx + radius < 0 || echo.cx - radius > w ||
+            echo.cy + radius < 0 || echo.cy - radius > h) continue
+
+        // Fronts that have reached the skull are drawn over it, after the static layer
+        if (echo.cx - radius < brainLeft) {
+          refracted.push([echo, radius])
+          continue
+        }
+
+        // The burst trails inside the expanding front as a ring of alternating pressure
+        if (radius <= 0) continue
+        const inner = Math.max(0, radius - burst.extent)
+        const gradient = ctx.createRadialGradient(echo.cx, echo.cy, 0, echo.cx, echo.cy, radius)
+        addPulseStops(gradient, burst, u => (radius - u) / radius, echoRgb, rarefaction, echo.opacity)
+        ctx.fillStyle = gradient
+        ctx.beginPath()
+        ctx.arc(echo.cx, echo.cy, radius, 0, Math.PI * 2)
+        ctx.moveTo(echo.cx + inner, echo.cy)
+        ctx.arc(echo.cx, echo.cy, inner, 0, Math.PI * 2)
+        ctx.fill("evenodd")
       }
 
       // RBCs (no shadowBlur -- use extra circle for glow)
       for (const rbc of s.rbcs) {
         const vessel = s.vessels[rbc.vesselIdx]
-        const pos = getVesselPoint(vessel, rbc.t)
-        const glowStrength = rbc.hitByPulses.size > 0 ? Math.max(0, 1 - (s.time - rbc.hitTime) * 1.2) : 0
+        const pos = getVesselPoint(vessel, lerpWrapped(rbc.prevT, rbc.t, alpha))
+        const glowStrength = rbc.hitTime >= 0 ? Math.max(0, 1 - (s.time - rbc.hitTime) * 1.2) : 0
 
         // Check if RBC is behind another vessel
         let behindVessel = false
@@ -734,20 +797,20 @@ export default function UltrasoundSimulation() {
         ctx.save()
         ctx.globalAlpha = dimFactor
         ctx.translate(pos.x, pos.y)
-        ctx.rotate(pos.angle + rbc.rotation)
+        ctx.rotate(pos.angle + lerp(rbc.prevRotation, rbc.rotation, alpha))
 
         const r = rbc.size
 
         // Glow ring instead of shadowBlur
         if (glowStrength > 0.1) {
           ctx.globalAlpha = glowStrength * 0.4 * dimFactor
-          ctx.fillStyle = "#ff4444"
+          ctx.fillStyle = colors.rbcHalo
           ctx.beginPath(); ctx.ellipse(0, 0, r + 4, (r + 4) * 0.5, 0, 0, Math.PI * 2); ctx.fill()
           ctx.globalAlpha = dimFactor
         }
 
         const isGlowing = glowStrength > 0.1
-        ctx.fillStyle = isGlowing ? "#dd3333" : "#a01818"
+        ctx.fillStyle = isGlowing ? colors.rbcHit : colors.rbc
         ctx.beginPath(); ctx.ellipse(0, 0, r, r * 0.5, 0, 0, Math.PI * 2); ctx.fill()
 
         // Highlight edge
@@ -761,7 +824,7 @@ export default function UltrasoundSimulation() {
         ctx.restore()
 
         // RBC label
-        if (rbc.labeled && !s.portrait) {
+        if (rbc.labeled && interaction.labels && !view.portrait) {
           ctx.save()
           ctx.globalAlpha = dimFactor
           ctx.font = "600 11px system-ui, sans-serif"
@@ -787,34 +850,91 @@ export default function UltrasoundSimulation() {
         }
       }
 
-      // Pulse wavefronts (no shadowBlur -- use double-stroke)
-      for (const pulse of s.pulses) {
-        if (pulse.x <= PROBE_FACE_X) continue
-        ctx.globalAlpha = pulse.opacity * 0.3
-        ctx.strokeStyle = "#38bdf8"
-        ctx.lineWidth = PULSE_WIDTH + 8
-        ctx.beginPath(); ctx.moveTo(pulse.x, probeTop); ctx.lineTo(pulse.x, probeBot); ctx.stroke()
+      // Pulse wavefronts: bands of compression and rarefaction under a Gaussian envelope, each a
+      // copy of the front traced a little less far. The wave solver draws its own pulses as part of the field
+      ctx.lineWidth = burst.extent / burst.stops.length + 0.5
+      for (const pulse of s.field ? [] : s.pulses) {
+        const distance = lerp(pulse.prevDistance, pulse.distance, alpha)
+        for (const { u, p } of burst.stops) {
+          if (Math.abs(p) < 0.05) continue
+          const front = transmitFront(engine.media, pulse.rays, distance - u, wavelength, engine.loss)
+          ctx.strokeStyle = p >= 0 ? colors.pulse : colors.pressureNegative
+          strokeFront(ctx, front, q => Math.abs(p) * toDisplay(q.amplitude))
+        }
+        ctx.globalAlpha = 1
+      }
 
-        ctx.globalAlpha = pulse.opacity
-        ctx.strokeStyle = "#38bdf8"
-        ctx.lineWidth = PULSE_WIDTH
-        ctx.beginPath(); ctx.moveTo(pulse.x, probeTop); ctx.lineTo(pulse.x, probeBot); ctx.stroke()
+      // Transmit focus
+      const beam = getBeamShape(engine.transmit, engine.units)
+      const focus = beam.mode === "focused" ? beamOrigin(layout, beam) : null
+      if (focus && focus.x < w) {
+        ctx.strokeStyle = "rgba(251,191,36,0.6)"
+        ctx.lineWidth = 1
+        ctx.beginPath()
+        ctx.moveTo(focus.x - 5, focus.y); ctx.lineTo(focus.x + 5, focus.y)
+        ctx.moveTo(focus.x, focus.y - 5); ctx.lineTo(focus.x, focus.y + 5)
+        ctx.stroke()
+      }
 
-        ctx.globalAlpha = 1
+      // Range-ambiguity limit: echoes from beyond here return after the next pulse fires
+      if (engine.transmit.auto) {
+        const limitX = faceX + engine.maxUnambiguousDepth
+        if (limitX < w) {
+          ctx.save()
+          ctx.strokeStyle = "rgba(251,191,36,0.45)"
+          ctx.lineWidth = 1
+          ctx.setLineDash([6, 4])
+          ctx.beginPath(); ctx.moveTo(limitX, probeTop); ctx.lineTo(limitX, probeBot); ctx.stroke()
+          ctx.setLineDash([])
+          if (interaction.labels && !view.portrait) {
+            ctx.font = "600 11px system-ui, sans-serif"
+            ctx.textAlign = "center"; ctx.textBaseline = "bottom"
+            ctx.fillStyle = "rgba(251,191,36,0.8)"
+            const limitMm = engine.units.pxToMm(engine.maxUnambiguousDepth)
+            ctx.fillText(`Max unambiguous depth · ${limitMm.toFixed(1)} mm`, limitX, probeTop - 6)
+          }
+          ctx.restore()
+        }
       }
 
       // ─── Static layer (skull + probe body) from offscreen canvas ──
       if (staticDirtyRef.current) {
-        renderStatic(w, h, currentDpr, s.portrait)
+        renderStatic(w, h, currentDpr, view.portrait, engine.config)
       }
       if (staticCanvasRef.current) {
         ctx.drawImage(staticCanvasRef.current, 0, 0, w, h)
       }
 
+      // ─── Echo fronts crossing the skull: they bend, speed up and weaken in each layer ──
+      for (const [echo, radius] of refracted) {
+        const front = refractedWavefront(engine.media, echo.cx, echo.cy, radius, ECHO_FRONT_SAMPLES, engine.loss)
+        const strength = echo.amplitude * sphericalSpreading(radius)
+        const coreWidth = echoCoreWidth(toDisplay(strength))
+        for (const [width, share, color] of [[echoGlowWidth, 0.3, colors.echoGlow], [coreWidth, 0.7, colors.echo]] as const) {
+          ctx.strokeStyle = color
+          ctx.lineWidth = width
+          strokeFront(ctx, front, p => share * toDisplay(p.amplitude * strength))
+        }
+      }
+
+      // ─── Specular reflections off the skull and vessel walls ────
+      for (const wave of s.reflections) {
+        const reflector = engine.reflectors[wave.reflector]
+        const front = reflectedFront(engine.media, reflector, lerp(wave.prevRadius, wave.radius, alpha), engine.loss)
+        ctx.strokeStyle = colors.reflection
+        ctx.lineWidth = reflector.kind === "skull" ? PULSE_WIDTH : 1.5
+        strokeFront(ctx, front, p => toDisplay(Math.abs(p.amplitude) * wave.amplitude), p => !p.linked)
+      }
+
+      // ─── Pressure field (wave solver), over the skull too ──────
+      if (s.field) {
+        drawPressureField(ctx, s.field, colors.pressurePositive, colors.pressureNegative, faceX)
+      }
+
       // ─── Probe hover glow ──────────────────────────────────────
-      if (s.probeHovered) {
+      if (view.probeHovered) {
         ctx.save()
-        const hFaceX = PROBE_FACE_X
+        const hFaceX = faceX
         const hHousingLeft = hFaceX - PROBE_HOUSING_WIDTH
         const hBodyLeft = hHousingLeft - PROBE_BODY_WIDTH
         const hMidY = (probeTop + probeBot) / 2
@@ -853,13 +973,15 @@ export default function UltrasoundSimulation() {
       }
 
       // ─── Dynamic elements on top of static probe ──────────────
-      const faceX = PROBE_FACE_X
       const elementW = PROBE_HOUSING_WIDTH * 0.55
       const elementLeft = faceX - elementW
+      // Each element transmits for the length of the burst, starting after its own delay
+      const firing = Array.from({ length: numElements }, (_, i) =>
+        s.pulses.some(p => p.distance >= p.delays[i] && p.distance - p.delays[i] < burst.extent))
 
-      for (let i = 0; i < NUM_ELEMENTS; i++) {
+      for (let i = 0; i < numElements; i++) {
         const ey = probeTop + i * (elementH + elementGap)
-        const transmitting = s.pulses.some(p => p.x < faceX + 30 && p.x >= faceX - 5)
+        const transmitting = firing[i]
         const receiveGlow = s.elementActivations[i]
 
         // Separator
@@ -896,70 +1018,387 @@ export default function UltrasoundSimulation() {
       }
 
       // Face edge glow per-element
-      const isTransmitting = s.pulses.some(p => p.x < faceX + 30)
-      if (isTransmitting) {
-        ctx.fillStyle = "rgba(56,189,248,0.8)"
-        ctx.fillRect(faceX - 1.5, probeTop, 1.5, probeH)
-      } else {
-        for (let i = 0; i < NUM_ELEMENTS; i++) {
-          const ey = probeTop + i * (elementH + elementGap)
-          const rg = s.elementActivations[i]
-          if (rg > 0.05) {
-            const fi = Math.min(rg / 4, 1)
-            ctx.fillStyle = `rgba(${Math.round(100 + fi * 155)},${Math.round(190 + fi * 65)},255,${Math.min(0.25 + rg * 0.25, 1)})`
-          } else {
-            ctx.fillStyle = "rgba(56,189,248,0.25)"
-          }
-          ctx.fillRect(faceX - 1.5, ey, 1.5, elementH)
+      for (let i = 0; i < numElements; i++) {
+        const ey = probeTop + i * (elementH + elementGap)
+        const rg = s.elementActivations[i]
+        if (firing[i]) {
+          ctx.fillStyle = "rgba(56,189,248,0.8)"
+        } else if (rg > 0.05) {
+          const fi = Math.min(rg / 4, 1)
+          ctx.fillStyle = `rgba(${Math.round(100 + fi * 155)},${Math.round(190 + fi * 65)},255,${Math.min(0.25 + rg * 0.25, 1)})`
+        } else {
+          ctx.fillStyle = "rgba(56,189,248,0.25)"
+        }
+        ctx.fillRect(faceX - 1.5, ey, 1.5, elementH)
+      }
+
+      // Transmit delay profile across the stack: elements drawn further back fire later
+      const delays = engine.transmitDelays
+      const maxDelay = Math.max(...delays)
+      if (maxDelay > 0.5) {
+        const delayX = (i: number) => elementLeft + 2 + (elementW - 4) * (1 - delays[i] / maxDelay)
+        ctx.strokeStyle = "rgba(251,191,36,0.8)"
+        ctx.fillStyle = "rgba(251,191,36,0.9)"
+        ctx.lineWidth = 1.25
+        ctx.beginPath()
+        for (let i = 0; i < numElements; i++) ctx.lineTo(delayX(i), elementCenterY(layout, i))
+        ctx.stroke()
+        for (let i = 0; i < numElements; i++) ctx.fillRect(delayX(i) - 1, elementCenterY(layout, i) - 1, 2, 2)
+      }
+
+      // Region the B-mode image covers
+      if (imagingRef.current.bmode) {
+        ctx.save()
+        ctx.strokeStyle = "rgba(148,163,184,0.3)"
+        ctx.lineWidth = 1
+        ctx.setLineDash([4, 4])
+        ctx.strokeRect(faceX, probeTop, w - faceX, probeH)
+        ctx.restore()
+      }
+
+      // Doppler beam and sample gate
+      const dopplerGate = dopplerRef.current.enabled ? getDopplerGate(dopplerRef.current, layout, engine.units) : null
+      if (dopplerGate) {
+        const { x, y, ux, uy, length } = dopplerGate
+        const half = length / 2
+        ctx.save()
+        ctx.strokeStyle = "rgba(52,211,153,0.5)"
+        ctx.lineWidth = 1
+        ctx.setLineDash([3, 4])
+        ctx.beginPath(); ctx.moveTo(faceX, (probeTop + probeBot) / 2); ctx.lineTo(x - ux * half, y - uy * half); ctx.stroke()
+        ctx.setLineDash([])
+        ctx.strokeStyle = "rgba(52,211,153,0.95)"
+        ctx.lineWidth = 1.5
+        ctx.beginPath()
+        for (const end of [-half, half]) {
+          const cx = x + ux * end, cy = y + uy * end
+          ctx.moveTo(cx - uy * 6, cy + ux * 6); ctx.lineTo(cx + uy * 6, cy - ux * 6)
         }
+        ctx.stroke()
+        ctx.restore()
+      }
+
+      // Power Doppler region of interest
+      const roi = powerDopplerRef.current.enabled ? getPowerDopplerRoi(powerDopplerRef.current, layout, engine.units) : null
+      if (roi) {
+        ctx.save()
+        ctx.strokeStyle = "rgba(245,158,11,0.9)"
+        ctx.lineWidth = 1.25
+        ctx.setLineDash([3, 2])
+        ctx.strokeRect(roi.x - roi.size / 2, roi.y - roi.size / 2, roi.size, roi.size)
+        ctx.restore()
+      }
+
+      // ─── Physical scale ────────────────────────────────────────
+      if (interaction.scale) {
+        drawDepthScale(ctx, engine.units, faceX, w, interaction.labels && !view.portrait)
+        // Newest pulse still in the medium, if any
+        const lead = s.pulses.reduce<number | null>(
+          (min, p) => (p.x > faceX && (min === null || p.x < min) ? p.x : min), null)
+        ctx.save()
+        ctx.setTransform(currentDpr, 0, 0, currentDpr, 0, 0)
+        drawTimeReadout(ctx, engine.units, s.time, lead === null ? null : lead - faceX,
+          engine.config.medium.waveSpeed, 12, 12)
+        ctx.restore()
       }
 
       // Subtle interaction hint (always in screen space so text is upright)
-      if (s.hintOpacity > 0.01) {
+      if (interaction.hint && view.hintOpacity > 0.01) {
         ctx.save()
-        if (s.portrait) {
+        if (view.portrait) {
           ctx.setTransform(currentDpr, 0, 0, currentDpr, 0, 0)
         }
-        ctx.globalAlpha = s.hintOpacity * 0.45
+        ctx.globalAlpha = view.hintOpacity * 0.45
         ctx.font = "400 13px system-ui, sans-serif"
         ctx.textAlign = "center"
         ctx.textBaseline = "bottom"
-        ctx.fillStyle = "#94a3b8"
+        ctx.fillStyle = colors.hint
         const isTouchDevice = "ontouchstart" in window || navigator.maxTouchPoints > 0
-        const hintText = isTouchDevice ? "Tap to pulse" : "Press space to pulse"
-        if (s.portrait) {
-          ctx.fillText(hintText, h / 2, s.screenH - 16)
+        const hintText = isTouchDevice
+          ? "Tap to pulse"
+          : view.focused ? "Press space to pulse" : "Click to pulse"
+        // Clear of the timeline scrubber when it is shown
+        const hintInset = interaction.controls ? 64 : 16
+        if (view.portrait) {
+          ctx.fillText(hintText, h / 2, view.screenH - hintInset)
         } else {
-          ctx.fillText(hintText, w / 2, h - 16)
+          ctx.fillText(hintText, w / 2, h - hintInset)
         }
         ctx.restore()
       }
 
+      // ─── Power Doppler, a slice of an ensemble every frame so none of them stalls the page ──
+      // It keeps averaging ensembles for as long as it is on
+      const fus = powerDopplerRef.current
+      let fusImage: PowerDopplerImage | null = null
+      if (fus.enabled) {
+        const { pulsation, heartRate } = engine.config.tissue
+        // Ensembles it is catching up on get the flow of their own time
+        const activityAt = (t: number) => vesselActivity(s.vessels, s.stimulus, experimentSeconds(t - s.stimulusStart))
+        fusImage = powerDopplerAt(s.time, s.vessels, activityAt, s.tissue, brain, faceX, probeTop, w - faceX, probeH,
+          { ...fus, frequency: engine.transmit.frequency, pulsation, heartRate }, engine.units, POWER_DOPPLER_BUDGET)
+        modeEnergyRef.current = fusImage.energy
+        // Timed from the start of the stimulus protocol, so it lines up with its blocks
+        timeCourseRef.current = roi ? timeCourseAt(fusImage, roi, s.stimulusStart) : []
+      }
+
+      // ─── Imaging panels, from the element signals of the last transmit ──
+      const imaging = imagingRef.current
+      if (timestamp - panelsShownAt >= PANEL_INTERVAL) {
+        panelsShownAt = timestamp
+        const ch = engine.channels
+        const received = ch ? (s.time - ch.firedAt) * engine.config.medium.waveSpeed : 0
+        const shown = [s.time, ch?.transmitId, imaging.gain, imaging.dynamicRange].join()
+
+        // B-mode pixels are filled in as their echoes arrive, so the image sweeps down with each pulse
+        const bmode = imaging.bmode && preparePanel(bmodeCanvasRef.current,
+          [shown, imaging.fNumber, imaging.pixelSize, w, h].join())
+        if (bmode) {
+          const region = [faceX, probeTop, w, h, imaging.pixelSize].join()
+          if (bmodeImage?.region !== region) {
+            bmodeImage = { region, image: createBModeImage(faceX, probeTop, w - faceX, probeH, imaging.pixelSize) }
+          }
+          const { image } = bmodeImage
+          if (ch) beamform(image, ch, layout, received, imaging)
+          else image.values.fill(0)
+          // Echoes from depth d are back after a round trip of 2d
+          drawBMode(bmode.ctx, image, engine.units, faceX, bmode.width, bmode.height, ch ? received / 2 : null)
+        }
+
+        const dopplerSettings = dopplerRef.current
+        if (dopplerSettings.enabled) {
+          const spectrogram = dopplerGate && spectrogramAt(s.time, s.vessels, activity, dopplerGate,
+            { prf: dopplerSettings.prf, frequency: engine.transmit.frequency }, engine.units)
+          const spectrum = preparePanel(spectrumCanvasRef.current,
+            [spectrogram?.last, spectrogram?.nyquist, dopplerSettings.dynamicRange].join())
+          if (spectrum) drawSpectrum(spectrum.ctx, spectrogram, dopplerSettings.dynamicRange, spectrum.width, spectrum.height)
+        }
+
+        if (fusImage) {
+          const image = fusImage
+          const panel = preparePanel(powerDopplerCanvasRef.current, [s.time, image.frames, fus.dynamicRange, w, h].join())
+          if (panel) {
+            drawPowerDoppler(panel.ctx, image, engine.units, faceX, panel.width, panel.height, null)
+            panel.ctx.fillStyle = "rgba(148,163,184,0.75)"
+            panel.ctx.font = "500 10px system-ui, sans-serif"
+            panel.ctx.textAlign = "right"; panel.ctx.textBaseline = "bottom"
+            panel.ctx.fillText(`${image.frames} frames · ${formatDuration(image.duration * 1e6)}`, panel.width - 8, panel.height - 6)
+          }
+        }
+
+        const traces = imaging.channels && preparePanel(channelCanvasRef.current, shown)
+        if (traces) {
+          const toUs = (roundTrip: number) => engine.units.simToUs(roundTrip / engine.config.medium.waveSpeed)
+          drawChannels(traces.ctx, ch, received, toUs, traces.width, traces.height, {
+            ...imaging, positive: colors.pressurePositive, negative: colors.pressureNegative,
+          })
+        }
+      }
+
       animFrameRef.current = requestAnimationFrame(animate)
     }
 
     animFrameRef.current = requestAnimationFrame(animate)
 
     return () => {
-      window.removeEventListener("keydown", onKey)
+      canvas.removeEventListener("keydown", onKey)
+      canvas.removeEventListener("focus", onFocus)
+      canvas.removeEventListener("blur", onBlur)
       canvas.removeEventListener("click", onClick)
-      canvas.removeEventListener("touchstart", onClick)
+      canvas.removeEventListener("touchstart", onTouch)
       canvas.removeEventListener("mousemove", onMouseMove)
       canvas.removeEventListener("mouseleave", onMouseLeave)
-      window.removeEventListener("resize", resize)
+      resizeObserver.disconnect()
       cancelAnimationFrame(animFrameRef.current)
     }
-  }, [buildVessels, buildRBCs, renderStatic])
+  }, [renderStatic, stepFrame])
+
+  useEffect(() => {
+    if (seed !== undefined) engineRef.current?.reseed(seed)
+  }, [seed])
+
+  useEffect(() => {
+    const engine = engineRef.current
+    if (!engine || engine.config === resolvedConfig) return
+    engine.configure(resolvedConfig)
+    setTransmit(resolvedConfig.transmit)
+    setPlayback(resolvedConfig.playback)
+    setSolver(resolvedConfig.solver.mode)
+    setImaging(resolvedConfig.imaging)
+    setDoppler(resolvedConfig.doppler)
+    setPowerDoppler(resolvedConfig.powerDoppler)
+    setStimulus(resolvedConfig.stimulus)
+    staticDirtyRef.current = true
+  }, [resolvedConfig])
+
+  useEffect(() => {
+    engineRef.current?.setTransmit(transmit)
+  }, [transmit])
+
+  useEffect(() => {
+    engineRef.current?.setPlayback(playback)
+  }, [playback])
+
+  useEffect(() => {
+    engineRef.current?.setSolver(solver)
+  }, [solver])
+
+  useEffect(() => {
+    engineRef.current?.setStimulus(stimulus)
+  }, [stimulus])
+
+  useEffect(() => {
+    if (doppler.enabled) setPlacing("gate")
+  }, [doppler.enabled])
+
+  useEffect(() => {
+    if (powerDoppler.enabled) setPlacing("roi")
+  }, [powerDoppler.enabled])
+
+  // The canvas loop does not re-render React, so poll the timeline for the scrubber
+  const showControls = resolvedConfig.interaction.controls
+  // Switched on from its own panel, so it comes with the controls unless configured on
+  const showDoppler = showControls || doppler.enabled || doppler.colorFlow
+  const showPowerDoppler = showControls || powerDoppler.enabled
+  const showStimulus = showControls || stimulus.enabled
+  useEffect(() => {
+    if (!showControls) return
+    const id = window.setInterval(() => {
+      const engine = engineRef.current
+      if (engine) setTimeline(engine.timelineRange)
+    }, 100)
+    return () => window.clearInterval(id)
+  }, [showControls])
+  useEffect(() => {
+    if (!powerDoppler.enabled) return
+    const id = window.setInterval(() => {
+      setModeEnergy(modeEnergyRef.current)
+      setTimeCourse(timeCourseRef.current)
+    }, 250)
+    return () => window.clearInterval(id)
+  }, [powerDoppler.enabled])
 
   return (
-    <div className="flex items-center justify-center min-h-screen bg-background">
-      <canvas
-        ref={canvasRef}
-        className="w-full h-screen"
-        style={{ imageRendering: "auto" }}
-        role="img"
-        aria-label="Animation of ultrasound pulse propagating through cerebral blood vessels and producing spherical echoes off red blood cells"
-      />
+    <div className={cn("flex h-full w-full flex-col overflow-hidden bg-background lg:flex-row", className)}>
+      <div className="relative min-h-0 min-w-0 flex-1">
+        <canvas
+          ref={canvasRef}
+          className="block h-full w-full outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-inset"
+          style={{ imageRendering: "auto" }}
+          tabIndex={0}
+          role="img"
+          aria-label="Animation of ultrasound pulse propagating through cerebral blood vessels and producing spherical echoes off red blood cells"
+        />
+        {showControls && (
+          <SimulationControls
+            className="absolute right-3 top-3"
+            autoTransmit={transmit.auto}
+            prf={transmit.prf}
+            prfLabel={formatFrequency(engineRef.current?.units.rateToHz(transmit.prf) ?? 0)}
+            frequency={transmit.frequency}
+            onFrequencyChange={frequency => setTransmit(t => ({ ...t, frequency }))}
+            cycles={transmit.cycles}
+            onCyclesChange={cycles => setTransmit(t => ({ ...t, cycles }))}
+            pulseLabel={formatPulse(engineRef.current, transmit.frequency, transmit.cycles)}
+            beam={transmit.beam}
+            onBeamChange={beam => setTransmit(t => ({ ...t, beam }))}
+            steering={transmit.steering}
+            onSteeringChange={steering => setTransmit(t => ({ ...t, steering }))}
+            focusDepth={transmit.focusDepth}
+            onFocusDepthChange={focusDepth => setTransmit(t => ({ ...t, focusDepth }))}
+            paused={playback.paused}
+            timeScale={playback.timeScale}
+            solver={solver}
+            onSolverChange={setSolver}
+            onAutoTransmitChange={auto => setTransmit(t => ({ ...t, auto }))}
+            onPrfChange={prf => setTransmit(t => ({ ...t, prf }))}
+            onPausedChange={paused => setPlayback(p => ({ ...p, paused }))}
+            onTimeScaleChange={timeScale => setPlayback(p => ({ ...p, timeScale }))}
+            onStepBack={() => stepFrame(-1)}
+            onStepForward={() => stepFrame(1)}
+          />
+        )}
+        {showControls && (
+          <TimelineScrubber
+            className="absolute inset-x-3 bottom-3"
+            start={timeline.start}
+            end={timeline.end}
+            time={timeline.time}
+            formatTime={t => formatDuration(engineRef.current?.units.simToUs(t) ?? 0)}
+            onSeek={seek}
+          />
+        )}
+      </div>
+      {(imaging.bmode || imaging.channels || showDoppler || showPowerDoppler || showStimulus) && (
+        <aside className="flex h-72 shrink-0 border-t border-slate-800 lg:h-auto lg:w-80 lg:flex-col lg:border-l lg:border-t-0">
+          {imaging.bmode && (
+            <BModePanel
+              className="min-w-0 flex-1"
+              canvasRef={bmodeCanvasRef}
+              gain={imaging.gain}
+              onGainChange={gain => setImaging(i => ({ ...i, gain }))}
+              dynamicRange={imaging.dynamicRange}
+              onDynamicRangeChange={dynamicRange => setImaging(i => ({ ...i, dynamicRange }))}
+            />
+          )}
+          {imaging.channels && (
+            <ChannelDataPanel
+              className="min-w-0 flex-1 border-l border-slate-800 lg:border-l-0 lg:border-t"
+              canvasRef={channelCanvasRef}
+            />
+          )}
+          {showDoppler && (
+            <DopplerPanel
+              className={cn("min-w-0 border-l border-slate-800 lg:border-l-0 lg:border-t", doppler.enabled && "flex-1")}
+              canvasRef={spectrumCanvasRef}
+              enabled={doppler.enabled}
+              onEnabledChange={enabled => setDoppler(d => ({ ...d, enabled }))}
+              colorFlow={doppler.colorFlow}
+              onColorFlowChange={colorFlow => setDoppler(d => ({ ...d, colorFlow }))}
+              prf={doppler.prf}
+              onPrfChange={prf => setDoppler(d => ({ ...d, prf }))}
+              gateLength={doppler.gateLength}
+              onGateLengthChange={gateLength => setDoppler(d => ({ ...d, gateLength }))}
+              nyquist={engineRef.current ? nyquistVelocity(engineRef.current.units, transmit.frequency, doppler.prf) : 0}
+              placed={doppler.gate !== null}
+              placing={!powerDoppler.enabled || placing === "gate"}
+            />
+          )}
+          {showPowerDoppler && (
+            <PowerDopplerPanel
+              className={cn("min-w-0 border-l border-slate-800 lg:border-l-0 lg:border-t", powerDoppler.enabled && "flex-1")}
+              canvasRef={powerDopplerCanvasRef}
+              enabled={powerDoppler.enabled}
+              onEnabledChange={enabled => setPowerDoppler(p => ({ ...p, enabled }))}
+              angles={powerDoppler.angles}
+              onAnglesChange={angles => setPowerDoppler(p => ({ ...p, angles }))}
+              prf={powerDoppler.prf}
+              onPrfChange={prf => setPowerDoppler(p => ({ ...p, prf }))}
+              dynamicRange={powerDoppler.dynamicRange}
+              onDynamicRangeChange={dynamicRange => setPowerDoppler(p => ({ ...p, dynamicRange }))}
+              clutterCutoff={powerDoppler.clutterCutoff}
+              onClutterCutoffChange={clutterCutoff => setPowerDoppler(p => ({ ...p, clutterCutoff }))}
+              noiseCutoff={powerDoppler.noiseCutoff}
+              onNoiseCutoffChange={noiseCutoff => setPowerDoppler(p => ({ ...p, noiseCutoff }))}
+              modeEnergy={modeEnergy}
+              roiSize={powerDoppler.roiSize}
+              onRoiSizeChange={roiSize => setPowerDoppler(p => ({ ...p, roiSize }))}
+              roiPlaced={powerDoppler.roi !== null}
+              placing={!doppler.enabled || placing === "roi"}
+              timeCourse={timeCourse}
+              blocks={stimulus.enabled ? stimulusBlocks(stimulus) : []}
+            />
+          )}
+          {showStimulus && (
+            <StimulusPanel
+              className="min-w-0 border-l border-slate-800 lg:border-l-0 lg:border-t"
+              stimulus={stimulus}
+              onStimulusChange={setStimulus}
+              vesselCount={vesselCount}
+            />
+          )}
+        </aside>
+      )}
     </div>
   )
 }
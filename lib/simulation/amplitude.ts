@@ -0,0 +1,34 @@
+import {
+  DISPLAY_DYNAMIC_RANGE,
+  ECHO_REFERENCE_RADIUS,
+  RBC_BACKSCATTER,
+  RBC_REFERENCE_SIZE,
+  TRANSMIT_FREQUENCY,
+} from "./constants"
+
+// Wave amplitudes are relative to a fresh transmit pulse (1) and span several
+// orders of magnitude once absorption, spreading and interfaces take their toll.
+
+/**
+ * Backscattered amplitude, per unit of incident amplitude, of a cell of
+ * `size` px at `frequency` MHz. Red cells are far smaller than a wavelength
+ * (Rayleigh scattering), so the scattered intensity goes as size⁶/λ⁴ and the
+ * amplitude as size³/λ², i.e. size³·f².
+ */
+export function rayleighAmplitude(size: number, frequency: number) {
+  return RBC_BACKSCATTER * (size / RBC_REFERENCE_SIZE) ** 3 * (frequency / TRANSMIT_FREQUENCY) ** 2
+}
+
+/** Amplitude of a spherical echo at `radius` relative to its strength at birth (spreading as 1/r). */
+export function sphericalSpreading(radius: number) {
+  return Math.min(1, ECHO_REFERENCE_RADIUS / Math.max(radius, 1e-6))
+}
+
+/**
+ * Log-compresses an amplitude into [0, 1] for display: full strength maps to
+ * 1 and anything `DISPLAY_DYNAMIC_RANGE` dB below it, or weaker, to 0.
+ */
+export function toDisplay(amplitude: number) {
+  if (amplitude <= 0) return 0
+  return Math.max(0, Math.min(1, 1 + (20 * Math.log10(amplitude)) / DISPLAY_DYNAMIC_RANGE))
+}
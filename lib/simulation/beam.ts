@@ -0,0 +1,253 @@
+import type { BeamMode, TransmitConfig } from "./config"
+import { elementCenterY, type ProbeLayout } from "./geometry"
+import { transmission, type MediaColumn } from "./media"
+import { absorb, traceRay, type RayCrossing } from "./refraction"
+import type { Units } from "./units"
+
+// Transmit beamforming: each element fires after its own delay, and the
+// wavelets add up to a front whose shape the delays set. The front is followed
+// as a fan of rays leaving the face, each setting off when the aperture under
+// it fires. Delays are in tissue px, like the ray tracer's distances, and are
+// computed for soft tissue throughout, as a scanner would: the skull then
+// bends the front away from the intended shape.
+
+/** Spacing of the rays a transmitted front is sampled with at the face, sim px */
+export const TRANSMIT_RAY_SPACING = 3
+
+/** Beam settings in sim units: steering in radians, focus in px */
+export interface BeamShape {
+  mode: BeamMode
+  steering: number
+  focusDepth: number
+}
+
+export function getBeamShape(transmit: TransmitConfig, units: Units): BeamShape {
+  return {
+    mode: transmit.beam,
+    steering: (transmit.steering * Math.PI) / 180,
+    focusDepth: units.mmToPx(transmit.focusDepth),
+  }
+}
+
+/** One ray of a transmitted front. */
+export interface TransmitRay {
+  x: number
+  y: number
+  ux: number
+  uy: number
+  /** Tissue px the first element's wavelet has travelled when this ray sets off */
+  delay: number
+  /** Width of front this ray stands for, across its direction, when it sets off */
+  width: number
+}
+
+/** Focus or virtual source the delays are built around, null for a plane wave */
+export function beamOrigin(layout: ProbeLayout, beam: BeamShape) {
+  if (beam.mode === "plane") return null
+  const side = beam.mode === "focused" ? 1 : -1
+  return {
+    x: layout.faceX + side * beam.focusDepth * Math.cos(beam.steering),
+    y: (layout.probeTop + layout.probeBot) / 2 + side * beam.focusDepth * Math.sin(beam.steering),
+  }
+}
+
+/** Firing delay of the first part of the aperture to fire, the zero of every delay below */
+function firstFiring(layout: ProbeLayout, beam: BeamShape) {
+  const origin = beamOrigin(layout, beam)
+  if (!origin) return (-layout.probeH / 2) * Math.abs(Math.sin(beam.steering))
+  const dx = layout.faceX - origin.x
+  if (beam.mode === "focused") {
+    return -Math.max(Math.hypot(dx, layout.probeTop - origin.y), Math.hypot(dx, layout.probeBot - origin.y))
+  }
+  return Math.hypot(dx, Math.min(layout.probeBot, Math.max(layout.probeTop, origin.y)) - origin.y)
+}
+
+/** Firing delay and direction of a source at face position `y`, delay up to a constant */
+function fire(layout: ProbeLayout, beam: BeamShape, y: number) {
+  const origin = beamOrigin(layout, beam)
+  if (!origin) {
+    const mid = (layout.probeTop + layout.probeBot) / 2
+    return { delay: (y - mid) * Math.sin(beam.steering), ux: Math.cos(beam.steering), uy: Math.sin(beam.steering) }
+  }
+  const dx = layout.faceX - origin.x, dy = y - origin.y
+  const r = Math.hypot(dx, dy)
+  // Converging: the elements farthest from the focus fire first. Diverging: those nearest the source
+  return beam.mode === "focused"
+    ? { delay: -r, ux: -dx / r, uy: -dy / r }
+    : { delay: r, ux: dx / r, uy: dy / r }
+}
+
+/**
+ * The rays of a transmit with `beam`, top to bottom across the aperture, the
+ * first of them setting off at delay 0.
+ */
+export function transmitRays(layout: ProbeLayout, beam: BeamShape): TransmitRay[] {
+  const n = Math.max(2, Math.ceil(layout.probeH / TRANSMIT_RAY_SPACING))
+  const spacing = layout.probeH / n
+  const first = firstFiring(layout, beam)
+  return Array.from({ length: n }, (_, k) => {
+    const y = layout.probeTop + (k + 0.5) * spacing
+    const { delay, ux, uy } = fire(layout, beam, y)
+    return { x: layout.faceX, y, ux, uy, delay: delay - first, width: spacing * ux }
+  })
+}
+
+/** Firing delay of each element for `beam`, in tissue px after the aperture starts firing. */
+export function elementDelays(layout: ProbeLayout, beam: BeamShape): number[] {
+  const first = firstFiring(layout, beam)
+  return Array.from({ length: layout.numElements }, (_, i) => fire(layout, beam, elementCenterY(layout, i)).delay - first)
+}
+
+/**
+ * Arrival time of the front at any point, in tissue px after the aperture
+ * starts firing, assuming soft tissue all the way, as a beamformer does.
+ */
+export function transmitArrival(layout: ProbeLayout, beam: BeamShape): (x: number, y: number) => number {
+  const first = firstFiring(layout, beam)
+  const origin = beamOrigin(layout, beam)
+  const cos = Math.cos(beam.steering), sin = Math.sin(beam.steering)
+  if (!origin) {
+    const mid = (layout.probeTop + layout.probeBot) / 2
+    return (x, y) => (x - layout.faceX) * cos + (y - mid) * sin - first
+  }
+  if (beam.mode === "diverging") return (x, y) => Math.sqrt((x - origin.x) ** 2 + (y - origin.y) ** 2) - first
+  // Converging up to the focus, diverging from it beyond
+  return (x, y) => {
+    const r = Math.sqrt((x - origin.x) ** 2 + (y - origin.y) ** 2)
+    return (x - origin.x) * cos + (y - origin.y) * sin > 0 ? r - first : -r - first
+  }
+}
+
+/**
+ * Amplitude gain of a ray tube that has narrowed from `width0` to `width`.
+ * Diffraction keeps a beam of `rays` tubes at least a `wavelength` wide, which
+ * caps the gain at a focus.
+ */
+function tubeGain(width0: number, width: number, wavelength: number, rays: number) {
+  return Math.sqrt(width0 / Math.max(width, wavelength / rays))
+}
+
+/** A point on a transmitted front, with its amplitude relative to the transmitted pulse */
+export interface TransmitPoint {
+  x: number
+  y: number
+  amplitude: number
+}
+
+/**
+ * The transmitted front once the first element's wavelet has travelled
+ * `distance` tissue px, one entry per ray. Null where a ray has not set off yet
+ * or has been totally reflected. `loss` is as for `traceRay`.
+ */
+export function transmitFront(
+  columns: readonly MediaColumn[],
+  rays: readonly TransmitRay[],
+  distance: number,
+  wavelength: number,
+  loss = 0,
+): (TransmitPoint | null)[] {
+  const ends = rays.map(r => {
+    const budget = distance - r.delay
+    const end = budget > 0 ? traceRay(columns, r.x, r.y, r.ux, r.uy, budget, loss) : null
+    return end && !end.arrived ? end : null
+  })
+  return ends.map((end, k) => {
+    if (!end) return null
+    // Front width this ray now covers, from its neighbours
+    let width = 0, count = 0
+    for (const other of [ends[k - 1], ends[k + 1]]) {
+      if (!other) continue
+      width += Math.hypot(other.x - end.x, other.y - end.y)
+      count++
+    }
+    const gain = count > 0 ? tubeGain(rays[k].width, width / count, wavelength, rays.length) : 1
+    return { x: end.x, y: end.y, amplitude: end.amplitude * gain }
+  })
+}
+
+/** A transmit ray where it enters the brain, past which it runs straight */
+export interface BrainRay {
+  x: number
+  y: number
+  ux: number
+  uy: number
+  /** Tissue px the first element's wavelet has travelled when this ray enters the brain */
+  used: number
+  amplitude: number
+  width: number
+}
+
+/** Each ray of a transmit as it enters the brain, null for rays that never get there. */
+export function brainRays(
+  columns: readonly MediaColumn[],
+  rays: readonly TransmitRay[],
+  loss = 0,
+): (BrainRay | null)[] {
+  const brain = columns.length - 1
+  return rays.map(r => {
+    let entry: RayCrossing | null = null
+    // The budget runs out in the brain, which reaches to infinity; only the crossing matters
+    const end = traceRay(columns, r.x, r.y, r.ux, r.uy, Infinity, loss, c => {
+      if (c.into === brain) entry = c
+    })
+    const c = entry as RayCrossing | null
+    if (!end || !c) return brain === 0 ? { ...r, used: r.delay, amplitude: 1 } : null
+    const from = columns[brain - 1], to = columns[brain]
+    const sin = (Math.abs(c.uy) * to.speed) / from.speed
+    return {
+      x: c.x,
+      y: c.y,
+      ux: Math.sqrt(1 - sin * sin),
+      uy: Math.sign(c.uy) * sin,
+      used: r.delay + c.used,
+      amplitude: c.amplitude * transmission(from.impedance, to.impedance),
+      width: r.width,
+    }
+  })
+}
+
+/** How a transmit reaches a point in the brain */
+export interface Incidence {
+  /** Tissue px the first element's wavelet has travelled when the front gets here */
+  distance: number
+  amplitude: number
+  /** Direction the front is travelling in */
+  ux: number
+  uy: number
+}
+
+/**
+ * How the transmit whose rays enter the brain as `rays` reaches (`x`, `y`),
+ * interpolated between the two rays either side of it. Where rays cross, as
+ * around a focus, the earliest arrival wins. Null outside the insonified area.
+ */
+export function incidentAt(
+  columns: readonly MediaColumn[],
+  rays: readonly (BrainRay | null)[],
+  x: number, y: number,
+  wavelength: number,
+  loss = 0,
+): Incidence | null {
+  let best: Incidence | null = null
+  for (let k = 0; k < rays.length - 1; k++) {
+    const a = rays[k], b = rays[k + 1]
+    if (!a || !b) continue
+    // Signed distances from either ray's line; opposite signs put the point between them
+    const da = (x - a.x) * a.uy - (y - a.y) * a.ux
+    const db = (x - b.x) * b.uy - (y - b.y) * b.ux
+    if (da * db > 0 || da === db) continue
+    const sa = (x - a.x) * a.ux + (y - a.y) * a.uy
+    const sb = (x - b.x) * b.ux + (y - b.y) * b.uy
+    if (sa < 0 || sb < 0) continue
+    const t = da / (da - db)
+    const along = sa + (sb - sa) * t
+    const distance = a.used + sa + (b.used + sb - a.used - sa) * t
+    if (best && distance >= best.distance) continue
+    const ux = a.ux + (b.ux - a.ux) * t, uy = a.uy + (b.uy - a.uy) * t
+    const norm = Math.hypot(ux, uy)
+    const gain = tubeGain(a.width + (b.width - a.width) * t, Math.abs(da - db), wavelength, rays.length)
+    const amplitude = (a.amplitude + (b.amplitude - a.amplitude) * t) * gain * absorb(columns[columns.length - 1], loss, along)
+    best = { distance, amplitude, ux: ux / norm, uy: uy / norm }
+  }
+  return best
+}
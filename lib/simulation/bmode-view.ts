@@ -0,0 +1,95 @@
+import type { BModeImage } from "./bmode"
+import { NICE_STEPS_MM } from "./overlays"
+import type { Units } from "./units"
+
+/** Room left of the image for the depth labels, CSS px */
+const AXIS_WIDTH = 40
+const PADDING = 8
+
+/** Maps an image value in [0, 1] to an RGB colour, 0–255 each */
+export type Colormap = (value: number) => readonly [number, number, number]
+
+const greyscale: Colormap = v => [v * 255, v * 255, v * 255]
+
+/** Black through red and yellow to white, as power Doppler and fUS images are shown */
+export const hotColormap: Colormap = v => [
+  255 * Math.min(1, 3 * v),
+  255 * Math.min(1, Math.max(0, 3 * v - 1)),
+  255 * Math.max(0, 3 * v - 2),
+]
+
+/**
+ * Draws a `BModeImage` the way a scanner shows it: depth running down from
+ * the probe face, the aperture across, greyscale brightness (or `colormap`),
+ * with a depth ruler in mm and a line at the depth the echoes have returned
+ * from so far. Keeps one image-sized offscreen canvas, transposed, scaled up
+ * with smoothing.
+ */
+export function createBModeRenderer(colormap: Colormap = greyscale) {
+  let canvas: HTMLCanvasElement | null = null
+  let pixels: ImageData | null = null
+  // Colours for 256 levels, looked up per pixel
+  const lookup = new Uint8ClampedArray(256 * 3)
+  for (let level = 0; level < 256; level++) lookup.set(colormap(level / 255), level * 3)
+
+  return function drawBMode(
+    ctx: CanvasRenderingContext2D,
+    image: BModeImage,
+    units: Units,
+    faceX: number,
+    width: number,
+    height: number,
+    sweepDepth: number | null,
+  ) {
+    const { nx, ny, values } = image
+    canvas ??= document.createElement("canvas")
+    if (!pixels || pixels.width !== ny || pixels.height !== nx) {
+      canvas.width = ny
+      canvas.height = nx
+      pixels = new ImageData(ny, nx)
+    }
+    const data = pixels.data
+    for (let ix = 0; ix < nx; ix++) {
+      for (let iy = 0; iy < ny; iy++) {
+        const o = (ix * ny + iy) * 4
+        const level = 3 * Math.round(values[iy * nx + ix] * 255)
+        data[o] = lookup[level]
+        data[o + 1] = lookup[level + 1]
+        data[o + 2] = lookup[level + 2]
+        data[o + 3] = 255
+      }
+    }
+    canvas.getContext("2d")!.putImageData(pixels, 0, 0)
+
+    ctx.fillStyle = "#000"
+    ctx.fillRect(0, 0, width, height)
+    // Same scale both ways, so distances in the image match the sim's
+    const scale = Math.min((width - AXIS_WIDTH - PADDING) / image.height, (height - 2 * PADDING) / image.width)
+    if (!(scale > 0)) return
+    const left = AXIS_WIDTH + ((width - AXIS_WIDTH - PADDING) - image.height * scale) / 2
+    const top = PADDING
+    const depthAt = (px: number) => top + (px - (image.left - faceX)) * scale
+    ctx.imageSmoothingEnabled = true
+    ctx.drawImage(canvas, left, top, image.height * scale, image.width * scale)
+
+    // Depth ruler, from the probe face
+    const majorMm = NICE_STEPS_MM.find(mm => units.mmToPx(mm) * scale >= 40) ?? NICE_STEPS_MM[NICE_STEPS_MM.length - 1]
+    const fromMm = units.pxToMm(image.left - faceX), toMm = units.pxToMm(image.left + image.width - faceX)
+    ctx.strokeStyle = "rgba(148,163,184,0.45)"
+    ctx.fillStyle = "rgba(148,163,184,0.75)"
+    ctx.lineWidth = 1
+    ctx.font = "500 10px system-ui, sans-serif"
+    ctx.textAlign = "right"; ctx.textBaseline = "middle"
+    for (let mm = Math.ceil(fromMm / majorMm) * majorMm; mm <= toMm; mm += majorMm) {
+      const y = depthAt(units.mmToPx(mm))
+      ctx.beginPath(); ctx.moveTo(left - 6, y); ctx.lineTo(left - 2, y); ctx.stroke()
+      ctx.fillText(`${+mm.toFixed(1)} mm`, left - 8, y)
+    }
+
+    if (sweepDepth !== null && sweepDepth < image.left + image.width - faceX) {
+      const y = depthAt(Math.max(image.left - faceX, sweepDepth))
+      ctx.strokeStyle = "rgba(56,189,248,0.6)"
+      ctx.beginPath(); ctx.moveTo(left, y); ctx.lineTo(left + image.height * scale, y); ctx.stroke()
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import { transmitArrival } from "./beam"
+import { elementCenterY, type ProbeLayout } from "./geometry"
+import type { ChannelData } from "./types"
+
+/**
+ * A B-mode image of the area in front of the probe, in the same orientation as
+ * the sim: depth along x from `left`, across the aperture along y from `top`.
+ */
+export interface BModeImage {
+  left: number
+  top: number
+  width: number
+  height: number
+  nx: number
+  ny: number
+  /** Log-compressed brightness in [0, 1], row-major */
+  values: Float32Array
+}
+
+export function createBModeImage(left: number, top: number, width: number, height: number, pixel: number): BModeImage {
+  const nx = Math.max(1, Math.ceil(width / pixel))
+  const ny = Math.max(1, Math.ceil(height / pixel))
+  return { left, top, width, height, nx, ny, values: new Float32Array(nx * ny) }
+}
+
+export interface BeamformOptions {
+  /** dB shown, from full brightness to black */
+  dynamicRange: number
+  /** dB applied before log compression */
+  gain: number
+  /** Receive aperture width is depth / `fNumber` */
+  fNumber: number
+}
+
+/**
+ * Reconstructs B-mode images from channel data by delay-and-sum. Each trace
+ * is first turned into its analytic signal (quadrature demodulation at the
+ * carrier, then remodulation), so summing the delayed samples of all elements
+ * gives the beamformed signal and its envelope at once. Delays assume soft
+ * tissue throughout, as a scanner's do, so the skull shifts and blurs what
+ * lies beyond it. Keeps its scratch buffers between calls.
+ */
+export function createBeamformer() {
+  let re = new Float32Array(0)
+  let im = new Float32Array(0)
+  let cos = new Float32Array(0)
+  let sin = new Float32Array(0)
+  let mixI = new Float32Array(0)
+  let mixQ = new Float32Array(0)
+
+  /** Analytic signal of every trace up to sample `count` */
+  function analytic(ch: ChannelData, count: number) {
+    const { data, numSamples, numElements, spacing, wavelength } = ch
+    if (re.length < data.length) {
+      re = new Float32Array(data.length)
+      im = new Float32Array(data.length)
+    }
+    if (cos.length < numSamples) {
+      cos = new Float32Array(numSamples)
+      sin = new Float32Array(numSamples)
+      mixI = new Float32Array(numSamples)
+      mixQ = new Float32Array(numSamples)
+    }
+    const w = (2 * Math.PI * spacing) / wavelength
+    for (let k = 0; k < count; k++) { cos[k] = Math.cos(w * k); sin[k] = Math.sin(w * k) }
+    // Averaging over a whole carrier period removes the 2f mixing product
+    const half = Math.max(1, Math.round(wavelength / spacing / 2))
+    for (let e = 0; e < numElements; e++) {
+      const base = e * numSamples
+      for (let k = 0; k < count; k++) {
+        mixI[k] = data[base + k] * cos[k]
+        mixQ[k] = -data[base + k] * sin[k]
+      }
+      let sumI = 0, sumQ = 0
+      for (let k = 0; k < Math.min(half, count); k++) { sumI += mixI[k]; sumQ += mixQ[k] }
+      for (let k = 0; k < count; k++) {
+        if (k + half < count) { sumI += mixI[k + half]; sumQ += mixQ[k + half] }
+        if (k - half - 1 >= 0) { sumI -= mixI[k - half - 1]; sumQ -= mixQ[k - half - 1] }
+        const n = Math.min(count - 1, k + half) - Math.max(0, k - half) + 1
+        const i = (2 * sumI) / n, q = (2 * sumQ) / n
+        re[base + k] = i * cos[k] - q * sin[k]
+        im[base + k] = i * sin[k] + q * cos[k]
+      }
+    }
+  }
+
+  /**
+   * Beamforms `ch` into `image`, for the pixels whose echoes have all arrived
+   * by round trip `received` (tissue px after firing). The rest keep what the
+   * previous transmit put there, so the image is refreshed as echoes return.
+   */
+  return function beamform(
+    image: BModeImage,
+    ch: ChannelData,
+    layout: ProbeLayout,
+    received: number,
+    options: BeamformOptions,
+  ) {
+    const { numSamples, numElements, spacing } = ch
+    const count = Math.min(numSamples, Math.floor(received / spacing) + 1)
+    if (count < 2) return
+    analytic(ch, count)
+    const elementYs = Array.from({ length: numElements }, (_, i) => elementCenterY(layout, i))
+    const { nx, ny, values } = image
+    const dx = image.width / nx, dy = image.height / ny
+    const limit = (count - 1) * spacing
+    const arrival = transmitArrival(layout, ch.beam)
+
+    for (let iy = 0; iy < ny; iy++) {
+      const y = image.top + (iy + 0.5) * dy
+      for (let ix = 0; ix < nx; ix++) {
+        const x = image.left + (ix + 0.5) * dx
+        const depth = x - layout.faceX
+        const tx = arrival(x, y)
+        // Elements within the aperture for this depth, or the nearest one
+        const half = depth / (2 * options.fNumber)
+        let sumRe = 0, sumIm = 0, used = 0, complete = true
+        let nearest = 0
+        for (let e = 0; e < numElements; e++) {
+          if (Math.abs(elementYs[e] - y) < Math.abs(elementYs[nearest] - y)) nearest = e
+          if (Math.abs(elementYs[e] - y) > half) continue
+          const t = tx + Math.sqrt(depth * depth + (y - elementYs[e]) ** 2)
+          if (t < 0) continue
+          if (t > limit) { complete = false; break }
+          const k = t / spacing
+          const k0 = Math.floor(k), f = k - k0
+          const base = e * numSamples + k0
+          sumRe += re[base] + (re[base + 1] - re[base]) * f
+          sumIm += im[base] + (im[base + 1] - im[base]) * f
+          used++
+        }
+        if (!complete) continue
+        if (used === 0) {
+          const t = tx + Math.sqrt(depth * depth + (y - elementYs[nearest]) ** 2)
+          if (t < 0 || t > limit) continue
+          const base = nearest * numSamples + Math.floor(t / spacing)
+          sumRe = re[base]
+          sumIm = im[base]
+          used = 1
+        }
+        const envelope = Math.sqrt(sumRe * sumRe + sumIm * sumIm) / used
+        const db = envelope > 0 ? 20 * Math.log10(envelope) + options.gain : -Infinity
+        values[iy * nx + ix] = Math.max(0, Math.min(1, 1 + db / options.dynamicRange))
+      }
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import { toRgb, type Rgb } from "./field-view"
+import type { ChannelData } from "./types"
+
+const NICE_STEPS_US = [1, 2, 5, 10, 20, 50, 100, 200, 500]
+/** Room left of the image for the time labels, and below it for the element labels, CSS px */
+const AXIS_WIDTH = 40
+const AXIS_HEIGHT = 16
+const PADDING = 8
+
+export interface ChannelViewOptions {
+  /** dB shown, from full brightness to black */
+  dynamicRange: number
+  /** dB applied before log compression */
+  gain: number
+  /** Colours of compression and rarefaction */
+  positive: string
+  negative: string
+}
+
+/**
+ * Draws channel data as an element × time image, time running down: every
+ * column is one element's RF trace, compression and rarefaction in two
+ * colours, log-compressed. A point scatterer shows up as a hyperbola, since
+ * its echo reaches the elements beside it later than the one in front.
+ * Samples not yet received stay dark. Traces are binned to one row per
+ * pixel of height, each row keeping the strongest sample it covers so short
+ * pulses survive.
+ */
+export function createChannelRenderer() {
+  let canvas: HTMLCanvasElement | null = null
+  let pixels: ImageData | null = null
+  let palette: { key: string; pos: Rgb; neg: Rgb } | null = null
+
+  return function drawChannels(
+    ctx: CanvasRenderingContext2D,
+    ch: ChannelData | null,
+    received: number,
+    /** Round trip in tissue px to µs */
+    toUs: (roundTrip: number) => number,
+    width: number,
+    height: number,
+    options: ChannelViewOptions,
+  ) {
+    ctx.fillStyle = "#000"
+    ctx.fillRect(0, 0, width, height)
+    const imageW = width - AXIS_WIDTH - PADDING
+    const imageH = height - AXIS_HEIGHT - PADDING
+    if (!ch || imageW <= 0 || imageH <= 0) return
+
+    const { numElements, numSamples, data, spacing } = ch
+    const rows = Math.max(1, Math.min(numSamples, Math.ceil(imageH)))
+    canvas ??= document.createElement("canvas")
+    if (!pixels || pixels.width !== numElements || pixels.height !== rows) {
+      canvas.width = numElements
+      canvas.height = rows
+      pixels = new ImageData(numElements, rows)
+    }
+    const key = options.positive + options.negative
+    if (palette?.key !== key) palette = { key, pos: toRgb(ctx, options.positive), neg: toRgb(ctx, options.negative) }
+    const { pos, neg } = palette
+
+    const count = Math.min(numSamples, Math.floor(received / spacing) + 1)
+    const out = pixels.data
+    for (let i = 0; i < numElements; i++) {
+      const trace = i * numSamples
+      for (let row = 0; row < rows; row++) {
+        const from = Math.floor((row * numSamples) / rows)
+        const to = Math.min(count, Math.floor(((row + 1) * numSamples) / rows))
+        let peak = 0
+        for (let k = from; k < to; k++) if (Math.abs(data[trace + k]) > Math.abs(peak)) peak = data[trace + k]
+        const db = peak !== 0 ? 20 * Math.log10(Math.abs(peak)) + options.gain : -Infinity
+        const v = Math.max(0, Math.min(1, 1 + db / options.dynamicRange))
+        const [r, g, b] = peak >= 0 ? pos : neg
+        const o = (row * numElements + i) * 4
+        out[o] = r * v
+        out[o + 1] = g * v
+        out[o + 2] = b * v
+        out[o + 3] = 255
+      }
+    }
+    canvas.getContext("2d")!.putImageData(pixels, 0, 0)
+
+    const left = AXIS_WIDTH, top = PADDING
+    // Columns stay crisp, one per element; rows were binned already
+    ctx.imageSmoothingEnabled = false
+    ctx.drawImage(canvas, left, top, imageW, imageH)
+    ctx.imageSmoothingEnabled = true
+
+    // Time ruler, from the start of the transmit
+    const totalUs = toUs((numSamples - 1) * spacing)
+    const rowOf = (us: number) => top + (us / totalUs) * imageH
+    const majorUs = NICE_STEPS_US.find(us => (us / totalUs) * imageH >= 30) ?? NICE_STEPS_US[NICE_STEPS_US.length - 1]
+    ctx.strokeStyle = "rgba(148,163,184,0.45)"
+    ctx.fillStyle = "rgba(148,163,184,0.75)"
+    ctx.lineWidth = 1
+    ctx.font = "500 10px system-ui, sans-serif"
+    ctx.textAlign = "right"; ctx.textBaseline = "middle"
+    for (let us = 0; us <= totalUs; us += majorUs) {
+      const y = rowOf(us)
+      ctx.beginPath(); ctx.moveTo(left - 6, y); ctx.lineTo(left - 2, y); ctx.stroke()
+      ctx.fillText(`${us} µs`, left - 8, y)
+    }
+    ctx.textAlign = "center"; ctx.textBaseline = "top"
+    ctx.fillText("1", left + imageW / numElements / 2, top + imageH + 3)
+    ctx.fillText(`${numElements}`, left + imageW - imageW / numElements / 2, top + imageH + 3)
+    ctx.fillText("element", left + imageW / 2, top + imageH + 3)
+
+    // How far the record has been filled in
+    if (count < numSamples) {
+      const y = top + (count / numSamples) * imageH
+      ctx.strokeStyle = "rgba(56,189,248,0.6)"
+      ctx.beginPath(); ctx.moveTo(left, y); ctx.lineTo(left + imageW, y); ctx.stroke()
+    }
+  }
+}
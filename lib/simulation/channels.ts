@@ -0,0 +1,58 @@
+import { pulseExtent, pulseProfile } from "./pulse"
+import { gaussianAt } from "./random"
+import type { ChannelData } from "./types"
+
+/**
+ * An empty record for a transmit, long enough for round trips of `length`
+ * tissue px, holding only the receive noise until echoes are added.
+ */
+export function createChannelData(
+  params: Omit<ChannelData, "numSamples" | "data"> & { length: number },
+): ChannelData {
+  const { length, ...rest } = params
+  const numSamples = Math.ceil(length / rest.spacing) + 1
+  const ch: ChannelData = { ...rest, numSamples, data: new Float32Array(rest.numElements * numSamples) }
+  if (ch.noise > 0) {
+    for (let j = 0; j < ch.data.length; j++) ch.data[j] = ch.noise * gaussianAt(ch.noiseSeed, j)
+  }
+  return ch
+}
+
+export function copyChannelData(ch: ChannelData): ChannelData {
+  return { ...ch, data: ch.data.slice() }
+}
+
+/** Element `i`'s trace, sharing the record's buffer. */
+export function channelTrace(ch: ChannelData, i: number): Float32Array {
+  return ch.data.subarray(i * ch.numSamples, (i + 1) * ch.numSamples)
+}
+
+/**
+ * Adds a copy of the transmitted pulse to element `i`'s trace, its leading
+ * edge arriving `at` tissue px of round trip after firing.
+ */
+export function addEcho(ch: ChannelData, i: number, at: number, amplitude: number, cycles: number) {
+  if (!Number.isFinite(at) || amplitude === 0) return
+  const { spacing, numSamples, wavelength } = ch
+  const from = Math.max(0, Math.ceil(at / spacing))
+  const to = Math.min(numSamples - 1, Math.floor((at + pulseExtent(wavelength, cycles)) / spacing))
+  const trace = i * numSamples
+  for (let k = from; k <= to; k++) ch.data[trace + k] += amplitude * pulseProfile(k * spacing - at, wavelength, cycles)
+}
+
+/**
+ * Records `value` on element `i`'s trace at round trip `to`, joined linearly
+ * to the value recorded at `from`, over the noise. For signals only known
+ * once per step.
+ */
+export function recordSpan(ch: ChannelData, i: number, from: number, to: number, value: number) {
+  const { spacing, numSamples, noise, noiseSeed } = ch
+  const trace = i * numSamples
+  const noiseOf = (k: number) => (noise > 0 ? noise * gaussianAt(noiseSeed, trace + k) : 0)
+  const k0 = Math.max(0, Math.floor(from / spacing))
+  const k1 = Math.min(numSamples - 1, Math.floor(to / spacing))
+  const start = ch.data[trace + k0] - noiseOf(k0)
+  for (let k = k0 + 1; k <= k1; k++) {
+    ch.data[trace + k] = start + ((value - start) * (k - k0)) / (k1 - k0) + noiseOf(k)
+  }
+}
@@ -0,0 +1,368 @@
+import { z } from "zod"
+
+import { cyclesForBandwidth } from "./pulse"
+import {
+  BMODE_DYNAMIC_RANGE,
+  DOPPLER_PRF,
+  BMODE_GAIN,
+  BMODE_PIXEL_SIZE,
+  CLUTTER_RANK,
+  COMPOUND_ANGLES,
+  ELEMENT_GAP,
+  FOCUS_DEPTH,
+  HEART_RATE,
+  GATE_LENGTH,
+  FDTD_CELL_SIZE,
+  FLOW_INCREASE,
+  BONE_SOUND_SPEED,
+  DIPLOE_SOUND_SPEED,
+  MAX_COMPOUND_ANGLES,
+  MAX_CYCLES,
+  MAX_DOPPLER_PRF,
+  MAX_ECHOES,
+  MAX_FOCUS_DEPTH,
+  MAX_FREQUENCY,
+  MAX_GATE_LENGTH,
+  MAX_PRF,
+  MAX_SAMPLING_RATE,
+  MAX_STEERING,
+  MAX_PULSATION,
+  MAX_ROI_SIZE,
+  MAX_STIMULUS_BLOCKS,
+  MAX_STIMULUS_PERIOD,
+  MAX_TIME_SCALE,
+  MAX_TISSUE_SCATTERERS,
+  MAX_ULTRAFAST_PRF,
+  MIN_CYCLES,
+  MIN_DOPPLER_PRF,
+  MIN_FOCUS_DEPTH,
+  MIN_FREQUENCY,
+  MIN_GATE_LENGTH,
+  MIN_PRF,
+  MIN_ROI_SIZE,
+  MIN_SAMPLING_RATE,
+  MIN_TIME_SCALE,
+  MIN_ULTRAFAST_PRF,
+  MM_PER_PX,
+  NUM_ELEMENTS,
+  PROBE_BOT_FRAC,
+  PROBE_FACE_X,
+  POWER_DOPPLER_DYNAMIC_RANGE,
+  POWER_DOPPLER_ENSEMBLE,
+  PROBE_TOP_FRAC,
+  PULSATION,
+  PULSE_CYCLES,
+  RECEIVE_F_NUMBER,
+  RECEIVE_NOISE,
+  ROI_SIZE,
+  SAMPLING_RATE,
+  SKULL_THICKNESS,
+  SPECTRAL_DYNAMIC_RANGE,
+  STIMULUS_BASELINE,
+  STIMULUS_BLOCKS,
+  STIMULUS_OFF,
+  STIMULUS_ON,
+  TISSUE_SCATTERERS,
+  TISSUE_SOUND_SPEED,
+  TRANSMIT_FREQUENCY,
+  ULTRAFAST_PRF,
+  VOLUME_INCREASE,
+  WAVE_SPEED,
+} from "./constants"
+import { buildVesselPaths } from "./scene"
+
+const color = z.string().min(1)
+
+/** Vessels in every scene; stimulated ones are picked by index */
+const VESSEL_COUNT = buildVesselPaths().length
+
+const probeSchema = z
+  .object({
+    /** x of the transducer face in sim px */
+    faceX: z.number().positive().default(PROBE_FACE_X),
+    numElements: z.number().int().min(1).max(256).default(NUM_ELEMENTS),
+    /** Kerf between elements in sim px */
+    elementGap: z.number().min(0).default(ELEMENT_GAP),
+    /** Aperture extent as fractions of the sim height */
+    topFrac: z.number().min(0).max(1).default(PROBE_TOP_FRAC),
+    botFrac: z.number().min(0).max(1).default(PROBE_BOT_FRAC),
+  })
+  .refine(p => p.topFrac < p.botFrac, { message: "probe.topFrac must be above probe.botFrac" })
+
+const mediumSchema = z.object({
+  /** Speed of sound in soft tissue, in sim px/s */
+  waveSpeed: z.number().positive().default(WAVE_SPEED),
+  /** Physical speed of sound in soft tissue (m/s); `waveSpeed` stands for this */
+  tissueSoundSpeed: z.number().positive().default(TISSUE_SOUND_SPEED),
+  /** Physical speed of sound in cortical bone, i.e. the outer and inner tables (m/s) */
+  boneSoundSpeed: z.number().positive().default(BONE_SOUND_SPEED),
+  /** Physical speed of sound in the spongy diploë between the tables (m/s) */
+  diploeSoundSpeed: z.number().positive().default(DIPLOE_SOUND_SPEED),
+  /** Skull thickness in sim px; 0 removes the skull */
+  skullThickness: z.number().min(0).default(SKULL_THICKNESS),
+  maxEchoes: z.number().int().min(0).default(MAX_ECHOES),
+})
+
+const vesselsSchema = z.object({
+  /** Multiplier on every vessel's flow speed */
+  flowScale: z.number().min(0).default(1),
+  /** Multiplier on every vessel's radius */
+  radiusScale: z.number().positive().default(1),
+})
+
+const tissueSchema = z.object({
+  /**
+   * Scatterers in the brain tissue. They echo far more strongly than blood,
+   * so they are the clutter power Doppler has to filter out; the other modes
+   * leave their echo out
+   */
+  scatterers: z.number().int().min(0).max(MAX_TISSUE_SCATTERERS).default(TISSUE_SCATTERERS),
+  /**
+   * Peak displacement of the brain over the cardiac cycle, µm, along the
+   * beam: none at the skull, growing to this at the far side of the image
+   */
+  pulsation: z.number().min(0).max(MAX_PULSATION).default(PULSATION),
+  /** Beats per minute */
+  heartRate: z.number().min(30).max(240).default(HEART_RATE),
+})
+
+const colorsSchema = z.object({
+  background: color.default("#0a0a0f"),
+  pulse: color.default("#38bdf8"),
+  echo: color.default("#38bdf8"),
+  echoGlow: color.default("#5ec8fa"),
+  /** Specular reflections off the skull and vessel walls */
+  reflection: color.default("#c4b5fd"),
+  vesselHalo: color.default("rgba(55,20,28,0.5)"),
+  vesselWall: color.default("rgba(70,28,35,0.6)"),
+  vesselLumen: color.default("rgba(40,10,15,0.85)"),
+  rbc: color.default("#a01818"),
+  rbcHit: color.default("#dd3333"),
+  rbcHalo: color.default("#ff4444"),
+  tissue: color.default("rgba(148,163,184,0.18)"),
+  /** Wave solver field: compression and rarefaction */
+  pressurePositive: color.default("#38bdf8"),
+  pressureNegative: color.default("#fb923c"),
+  hint: color.default("#94a3b8"),
+})
+
+const unitsSchema = z.object({
+  /** Physical size of one sim px; sets the depth scale */
+  mmPerPx: z.number().positive().default(MM_PER_PX),
+})
+
+const transmitSchema = z
+  .object({
+    /** Fire pulses continuously at `prf` instead of only on demand */
+    auto: z.boolean().default(false),
+    /** Pulse repetition frequency, pulses per second of sim time */
+    prf: z.number().min(MIN_PRF).max(MAX_PRF).default(0.4),
+    /**
+     * Centre frequency in MHz. Higher frequencies give shorter pulses (finer
+     * axial resolution) but are absorbed faster, so reach less deep
+     */
+    frequency: z.number().min(MIN_FREQUENCY).max(MAX_FREQUENCY).default(TRANSMIT_FREQUENCY),
+    /** Pulse length in cycles of the carrier (-6 dB envelope width) */
+    cycles: z.number().min(MIN_CYCLES).max(MAX_CYCLES).default(PULSE_CYCLES),
+    /**
+     * -6 dB fractional bandwidth, an alternative to `cycles`: a Gaussian pulse's
+     * bandwidth is set by its length, so this overrides `cycles` when given
+     */
+    bandwidth: z.number().positive().optional(),
+    /**
+     * Shape of the transmitted wavefront, set by per-element firing delays:
+     * a plane wave, a beam converging on a focus, or a wave diverging from a
+     * virtual source behind the probe
+     */
+    beam: z.enum(["plane", "focused", "diverging"]).default("plane"),
+    /** Steering angle in degrees, positive towards +y */
+    steering: z.number().min(-MAX_STEERING).max(MAX_STEERING).default(0),
+    /**
+     * For "focused", depth of the focus in mm; for "diverging", how far behind
+     * the face the virtual source sits. Both lie along the steering direction
+     */
+    focusDepth: z.number().min(MIN_FOCUS_DEPTH).max(MAX_FOCUS_DEPTH).default(FOCUS_DEPTH),
+  })
+  .transform(({ bandwidth, ...transmit }) => bandwidth === undefined
+    ? transmit
+    : { ...transmit, cycles: Math.min(MAX_CYCLES, Math.max(MIN_CYCLES, cyclesForBandwidth(bandwidth))) })
+
+const receiveSchema = z.object({
+  /**
+   * Rate the element signals are sampled at, MHz. Below twice the transmit
+   * frequency the recorded RF aliases
+   */
+  samplingRate: z.number().min(MIN_SAMPLING_RATE).max(MAX_SAMPLING_RATE).default(SAMPLING_RATE),
+  /** RMS of the white noise added to every sample; 0 records echoes only */
+  noise: z.number().min(0).default(RECEIVE_NOISE),
+})
+
+const solverSchema = z.object({
+  /**
+   * "geometric" draws pulses and echoes as ideal fronts; "fdtd" solves the
+   * linear acoustic wave equation on a grid and shows the pressure field
+   */
+  mode: z.enum(["geometric", "fdtd"]).default("geometric"),
+  /** Grid spacing of the wave solver in sim px */
+  cellSize: z.number().min(2).max(16).default(FDTD_CELL_SIZE),
+})
+
+const imagingSchema = z.object({
+  /** Beamform the recorded channel data into a B-mode image beside the sim */
+  bmode: z.boolean().default(true),
+  /** Show the raw element signals as an element × time image */
+  channels: z.boolean().default(true),
+  /** dB shown between full brightness and black, in both images */
+  dynamicRange: z.number().min(10).max(100).default(BMODE_DYNAMIC_RANGE),
+  /** dB added before log compression */
+  gain: z.number().min(0).max(100).default(BMODE_GAIN),
+  /** Receive aperture F-number: the aperture widens with depth to keep depth / width at this */
+  fNumber: z.number().min(0.25).max(8).default(RECEIVE_F_NUMBER),
+  /** Image pixel size in sim px; smaller is sharper but slower to beamform */
+  pixelSize: z.number().min(1).max(16).default(BMODE_PIXEL_SIZE),
+})
+
+const dopplerSchema = z.object({
+  /** Pulsed-wave Doppler at a sample gate, placed by clicking in the brain, with a spectral display */
+  enabled: z.boolean().default(false),
+  /** Colour flow: paint the mean flow velocity over the vessels in the imaged region */
+  colorFlow: z.boolean().default(false),
+  /** Gate centre as depth from the probe face and offset (+y) from the aperture centre, mm; null until placed */
+  gate: z.object({ depth: z.number().min(0), lateral: z.number() }).nullable().default(null),
+  /** Sample volume length along the Doppler beam, mm */
+  gateLength: z.number().min(MIN_GATE_LENGTH).max(MAX_GATE_LENGTH).default(GATE_LENGTH),
+  /** Doppler pulse repetition frequency, kHz, for both modes; sets the Nyquist velocity */
+  prf: z.number().min(MIN_DOPPLER_PRF).max(MAX_DOPPLER_PRF).default(DOPPLER_PRF),
+  /** dB of spectrum shown above the noise floor */
+  dynamicRange: z.number().min(10).max(80).default(SPECTRAL_DYNAMIC_RANGE),
+})
+
+const powerDopplerSchema = z
+  .object({
+    /**
+     * Ultrafast power Doppler, as in functional ultrasound: ensembles of
+     * compounded plane-wave frames, clutter-filtered and averaged into an image
+     * of the vessel network that sharpens the longer it runs
+     */
+    enabled: z.boolean().default(false),
+    /** Tilted plane waves compounded into each frame */
+    angles: z.number().int().min(1).max(MAX_COMPOUND_ANGLES).default(COMPOUND_ANGLES),
+    /** Plane-wave transmit rate, kHz; frames come at this over `angles` */
+    prf: z.number().min(MIN_ULTRAFAST_PRF).max(MAX_ULTRAFAST_PRF).default(ULTRAFAST_PRF),
+    /** dB shown below the strongest blood signal */
+    dynamicRange: z.number().min(10).max(60).default(POWER_DOPPLER_DYNAMIC_RANGE),
+    /** SVD clutter filter: slow-time modes below this are taken out as tissue */
+    clutterCutoff: z.number().int().min(0).max(POWER_DOPPLER_ENSEMBLE).default(CLUTTER_RANK),
+    /** ...and modes from this one on as noise */
+    noiseCutoff: z.number().int().min(0).max(POWER_DOPPLER_ENSEMBLE).default(POWER_DOPPLER_ENSEMBLE),
+    /**
+     * Centre of the region of interest whose signal is followed over time, as
+     * depth from the probe face and offset from the aperture centre, mm; placed
+     * by clicking in the brain, null until then
+     */
+    roi: z.object({ depth: z.number().min(0), lateral: z.number() }).nullable().default(null),
+    /** Side of the square region of interest, mm */
+    roiSize: z.number().min(MIN_ROI_SIZE).max(MAX_ROI_SIZE).default(ROI_SIZE),
+  })
+  .refine(p => p.clutterCutoff < p.noiseCutoff, {
+    message: "powerDoppler.clutterCutoff must be below powerDoppler.noiseCutoff",
+  })
+
+const stimulusSchema = z.object({
+  /**
+   * Block-design stimulation, timed in experiment seconds (one per power
+   * Doppler ensemble). Through a haemodynamic response it raises the flow
+   * speed and hematocrit of the chosen vessels; the protocol starts over
+   * each time it is switched on
+   */
+  enabled: z.boolean().default(false),
+  /** Rest before the first block, s */
+  baseline: z.number().min(0).max(MAX_STIMULUS_PERIOD).default(STIMULUS_BASELINE),
+  /** Stimulation per block, s */
+  on: z.number().min(1).max(MAX_STIMULUS_PERIOD).default(STIMULUS_ON),
+  /** Rest after each block, s */
+  off: z.number().min(1).max(MAX_STIMULUS_PERIOD).default(STIMULUS_OFF),
+  blocks: z.number().int().min(1).max(MAX_STIMULUS_BLOCKS).default(STIMULUS_BLOCKS),
+  /** Indices of the vessels that respond, from 0; repeats count once */
+  vessels: z
+    .array(
+      z.number().int().min(0).max(VESSEL_COUNT - 1, {
+        message: `stimulus.vessels must be indices of the ${VESSEL_COUNT} vessels, 0 to ${VESSEL_COUNT - 1}`,
+      }),
+    )
+    .transform(vessels => [...new Set(vessels)].sort((a, b) => a - b))
+    .default([1]),
+  /** Fractional rise in flow speed at the full response */
+  flowIncrease: z.number().min(0).max(1).default(FLOW_INCREASE),
+  /** Fractional rise in hematocrit, i.e. blood volume, at the full response */
+  volumeIncrease: z.number().min(0).max(1).default(VOLUME_INCREASE),
+})
+
+const playbackSchema = z.object({
+  /** Start frozen */
+  paused: z.boolean().default(false),
+  /** Sim seconds per wall-clock second */
+  timeScale: z.number().min(MIN_TIME_SCALE).max(MAX_TIME_SCALE).default(1),
+})
+
+const interactionSchema = z.object({
+  /** Space fires a pulse while the simulation has focus */
+  keyboard: z.boolean().default(true),
+  /** Click / tap on the canvas fires a pulse */
+  pointer: z.boolean().default(true),
+  /** Show the "press space" hint while idle */
+  hint: z.boolean().default(true),
+  /** Fire one pulse as soon as the scene is built */
+  pulseOnStart: z.boolean().default(true),
+  /** Draw the Skull / Transducer / Red Blood Cell callouts */
+  labels: z.boolean().default(true),
+  /** Draw the depth scale and physical time readout */
+  scale: z.boolean().default(true),
+  /** Show the on-canvas control bar */
+  controls: z.boolean().default(true),
+})
+
+export const simulationConfigSchema = z.object({
+  probe: probeSchema.default({}),
+  medium: mediumSchema.default({}),
+  vessels: vesselsSchema.default({}),
+  tissue: tissueSchema.default({}),
+  colors: colorsSchema.default({}),
+  transmit: transmitSchema.default({}),
+  receive: receiveSchema.default({}),
+  units: unitsSchema.default({}),
+  solver: solverSchema.default({}),
+  imaging: imagingSchema.default({}),
+  doppler: dopplerSchema.default({}),
+  powerDoppler: powerDopplerSchema.default({}),
+  stimulus: stimulusSchema.default({}),
+  playback: playbackSchema.default({}),
+  interaction: interactionSchema.default({}),
+})
+
+/** Fully resolved configuration, every field present. */
+export type SimulationConfig = z.output<typeof simulationConfigSchema>
+/** What callers pass: any subset of sections and fields. */
+export type SimulationConfigInput = z.input<typeof simulationConfigSchema>
+
+export type ProbeConfig = SimulationConfig["probe"]
+export type MediumConfig = SimulationConfig["medium"]
+export type TissueConfig = SimulationConfig["tissue"]
+export type ColorsConfig = SimulationConfig["colors"]
+export type TransmitConfig = SimulationConfig["transmit"]
+export type BeamMode = TransmitConfig["beam"]
+export type ReceiveConfig = SimulationConfig["receive"]
+export type ImagingConfig = SimulationConfig["imaging"]
+export type DopplerConfig = SimulationConfig["doppler"]
+export type PowerDopplerConfig = SimulationConfig["powerDoppler"]
+export type StimulusConfig = SimulationConfig["stimulus"]
+export type PlaybackConfig = SimulationConfig["playback"]
+export type SolverConfig = SimulationConfig["solver"]
+export type SolverMode = SolverConfig["mode"]
+
+/** Fills in defaults and validates. Throws a `ZodError` describing every invalid field. */
+export function resolveConfig(input: SimulationConfigInput = {}): SimulationConfig {
+  return simulationConfigSchema.parse(input)
+}
+
+export const DEFAULT_CONFIG: SimulationConfig = resolveConfig()
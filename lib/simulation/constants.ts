@@ -0,0 +1,167 @@
+// Physics runs at a fixed rate independent of the display refresh rate.
+// All velocities below are per second of simulated time.
+export const FIXED_DT = 1 / 60
+export const MAX_SUBSTEPS = 16
+export const WAVE_SPEED = 156 // px/s
+export const PROBE_TOP_FRAC = 0.12
+export const PROBE_BOT_FRAC = 0.88
+export const PROBE_FACE_X = 175
+export const PROBE_HOUSING_WIDTH = 32
+export const PROBE_BODY_WIDTH = 46
+export const PULSE_WIDTH = 3
+export const NUM_ELEMENTS = 32
+export const ELEMENT_GAP = 2.5
+export const SKULL_THICKNESS = 28
+/** Shares of the skull thickness taken by the outer table and the diploë; the inner table gets the rest */
+export const OUTER_TABLE_FRAC = 0.3
+export const DIPLOE_FRAC = 0.45
+/** Coupling gel between the probe face and the skull, in sim px */
+export const GEL_THICKNESS = 4
+/** Gap between the inner table of the skull and the first vessels */
+export const BRAIN_MARGIN = 10
+/** Scatterers strewn through the brain tissue */
+export const TISSUE_SCATTERERS = 6000
+export const MAX_TISSUE_SCATTERERS = 20000
+/** Peak displacement of the brain over the cardiac cycle, at the far side from the probe */
+export const PULSATION = 150 // µm
+export const MAX_PULSATION = 500 // µm
+export const HEART_RATE = 72 // beats per minute
+export const MAX_ECHOES = 200
+export const ELEMENT_DECAY_RATE = 1.5 // activation units/s
+export const MIN_PRF = 0.05 // Hz
+export const MAX_PRF = 5 // Hz
+export const MIN_TIME_SCALE = 0.05
+export const MAX_TIME_SCALE = 4
+/** Seconds of sim time that can be scrubbed back through */
+export const TIMELINE_SPAN = 30
+/** Sim seconds between timeline keyframes; seeks re-simulate at most this much */
+export const KEYFRAME_INTERVAL = 0.5
+
+// ─── Physical units ──────────────────────────────────────────────────────────
+export const MM_PER_PX = 0.1
+export const TISSUE_SOUND_SPEED = 1540 // m/s
+export const BONE_SOUND_SPEED = 2800 // m/s
+export const DIPLOE_SOUND_SPEED = 2300 // m/s
+export const TRANSMIT_FREQUENCY = 2 // MHz
+export const MIN_FREQUENCY = 0.25 // MHz
+export const MAX_FREQUENCY = 10 // MHz
+/** Cycles in a transmit pulse; with the wavelength this sets the pulse length */
+export const PULSE_CYCLES = 2
+export const MIN_CYCLES = 1
+export const MAX_CYCLES = 8
+/** Largest transmit steering angle either side of straight ahead, degrees */
+export const MAX_STEERING = 30
+/** Focal depth of a focused beam, or distance of a diverging wave's virtual source behind the face, mm */
+export const FOCUS_DEPTH = 40 // mm
+export const MIN_FOCUS_DEPTH = 5 // mm
+export const MAX_FOCUS_DEPTH = 120 // mm
+/** Rate the element signals are sampled at, MHz */
+export const SAMPLING_RATE = 20
+export const MIN_SAMPLING_RATE = 5 // MHz
+export const MAX_SAMPLING_RATE = 40 // MHz
+/** RMS of the electronic noise added to every sample, in the units of the echo amplitudes */
+export const RECEIVE_NOISE = 3e-5
+/** Cell size (sim px) whose echo has `RBC_BACKSCATTER` strength at `TRANSMIT_FREQUENCY` */
+export const RBC_REFERENCE_SIZE = 4
+/** Backscattered amplitude of the reference cell per unit of incident amplitude */
+export const RBC_BACKSCATTER = 0.5
+/** Echo radius (sim px) at which spherical spreading losses start */
+export const ECHO_REFERENCE_RADIUS = 12
+/** Amplitude range shown, from full strength down to invisible */
+export const DISPLAY_DYNAMIC_RANGE = 48 // dB
+
+// ─── Wave solver ─────────────────────────────────────────────────────────────
+/** Grid spacing of the finite-difference solver, sim px */
+export const FDTD_CELL_SIZE = 5
+
+// ─── Imaging ─────────────────────────────────────────────────────────────────
+/** B-mode pixel size, sim px */
+export const BMODE_PIXEL_SIZE = 4
+export const BMODE_DYNAMIC_RANGE = 60 // dB
+export const BMODE_GAIN = 60 // dB
+/** Depth over width of the receive aperture; it opens up with depth to keep this ratio */
+export const RECEIVE_F_NUMBER = 1
+
+// ─── Doppler ─────────────────────────────────────────────────────────────────
+/**
+ * Mean blood velocity (m/s) per unit of vessel `flowSpeed`. The animation moves
+ * cells far faster than blood flows on its physical time scale, so Doppler
+ * takes its velocities from here instead of from the animated cells
+ */
+export const BLOOD_VELOCITY_SCALE = 30
+/** Pulse repetition frequency of the Doppler transmits, kHz */
+export const DOPPLER_PRF = 4
+export const MIN_DOPPLER_PRF = 0.5 // kHz
+export const MAX_DOPPLER_PRF = 20 // kHz
+/** Slow-time samples per spectral line */
+export const DOPPLER_ENSEMBLE = 64
+/** Length of the sample volume along the Doppler beam */
+export const GATE_LENGTH = 2 // mm
+export const MIN_GATE_LENGTH = 0.5 // mm
+export const MAX_GATE_LENGTH = 10 // mm
+/** Sim seconds between spectral lines */
+export const SPECTRAL_LINE_INTERVAL = 0.05
+/** Spectral lines kept for the scrolling display */
+export const SPECTRAL_HISTORY = 240
+export const SPECTRAL_DYNAMIC_RANGE = 40 // dB
+/** Blood scatterers followed per vessel that crosses the sample volume */
+export const GATE_SCATTERERS = 96
+/** RMS of the complex receive noise on each slow-time sample, per unit scatterer amplitude */
+export const DOPPLER_NOISE = 0.3
+/** Colour flow: grid cell size (sim px), transmits per estimate, and sim seconds between frames */
+export const COLOR_FLOW_CELL = 6
+export const COLOR_FLOW_ENSEMBLE = 10
+export const COLOR_FLOW_INTERVAL = 0.1
+/** Blood scatterers summed per colour flow cell */
+export const COLOR_FLOW_SCATTERERS = 4
+/** Velocities below this fraction of the Nyquist velocity are taken for tissue and not coloured */
+export const WALL_FILTER = 0.06
+
+// ─── Ultrafast power Doppler ─────────────────────────────────────────────────
+/** Tilted plane waves compounded into each ultrafast frame */
+export const COMPOUND_ANGLES = 5
+export const MAX_COMPOUND_ANGLES = 15
+/** Plane-wave transmit rate; the frame rate is this over the number of angles */
+export const ULTRAFAST_PRF = 5 // kHz
+export const MIN_ULTRAFAST_PRF = 1 // kHz
+export const MAX_ULTRAFAST_PRF = 20 // kHz
+/** Power Doppler pixel size (sim px), frames per ensemble, and sim seconds between ensembles */
+export const POWER_DOPPLER_CELL = 8
+export const POWER_DOPPLER_ENSEMBLE = 32
+export const POWER_DOPPLER_INTERVAL = 0.25
+/** Pixels worked through between checks on the time budget, and ms of work per display frame */
+export const POWER_DOPPLER_CHUNK = 256
+export const POWER_DOPPLER_BUDGET = 6 // ms
+/** Blood scatterers passing through each power Doppler pixel per ensemble */
+export const POWER_DOPPLER_SCATTERERS = 6
+/** Echo amplitude of a tissue scatterer per unit blood scatterer amplitude */
+export const TISSUE_BACKSCATTER = 30
+/** Slow-time modes the SVD clutter filter takes out as tissue */
+export const CLUTTER_RANK = 2
+export const POWER_DOPPLER_DYNAMIC_RANGE = 20 // dB
+/** Side of the square region of interest whose power Doppler signal is followed over time */
+export const ROI_SIZE = 5 // mm
+export const MIN_ROI_SIZE = 1 // mm
+export const MAX_ROI_SIZE = 10 // mm
+/** Power Doppler time course points kept */
+export const TIME_COURSE_HISTORY = 1200
+
+// ─── Functional activation ───────────────────────────────────────────────────
+/**
+ * Experiment seconds each power Doppler ensemble stands for. Physical time in
+ * the simulation passes far too slowly for a haemodynamic response, so the
+ * stimulus runs on this clock instead, as an fUS acquisition of one image a second
+ */
+export const STIMULUS_FRAME_PERIOD = 1 // s
+/** Block design: rest before the first block, stimulation per block, rest after it */
+export const STIMULUS_BASELINE = 10 // s
+export const STIMULUS_ON = 10 // s
+export const STIMULUS_OFF = 20 // s
+export const MAX_STIMULUS_PERIOD = 60 // s
+export const STIMULUS_BLOCKS = 3
+export const MAX_STIMULUS_BLOCKS = 8
+/** Rise in flow speed and hematocrit of the stimulated vessels at the full response */
+export const FLOW_INCREASE = 0.3
+export const VOLUME_INCREASE = 0.2
+/** Hematocrit the strength of the blood echo is set for; power Doppler grows with it */
+export const HEMATOCRIT = 0.45
@@ -0,0 +1,142 @@
+import { COLOR_FLOW_CELL, DOPPLER_ENSEMBLE, SPECTRAL_HISTORY } from "./constants"
+import type { ColorFlowMap, Spectrogram } from "./doppler"
+
+const NICE_STEPS_CM_S = [5, 10, 20, 25, 50, 100, 200]
+/** Room left of the spectrum for the velocity labels, CSS px */
+const AXIS_WIDTH = 48
+const PADDING = 8
+
+/**
+ * Draws a scrolling spectral Doppler display: time runs left to right with the
+ * newest line at the right edge, velocity up the side with flow toward the
+ * probe above the baseline, brightness the power at that velocity. The mean
+ * velocity from the phase-shift estimate is traced over it. Flow past the
+ * Nyquist velocity wraps around to the other edge.
+ */
+export function createSpectrumRenderer() {
+  let canvas: HTMLCanvasElement | null = null
+  let pixels: ImageData | null = null
+
+  return function drawSpectrum(
+    ctx: CanvasRenderingContext2D,
+    spectrogram: Spectrogram | null,
+    dynamicRange: number,
+    width: number,
+    height: number,
+  ) {
+    ctx.fillStyle = "#000"
+    ctx.fillRect(0, 0, width, height)
+    const imageW = width - AXIS_WIDTH - PADDING
+    const imageH = height - 2 * PADDING
+    if (!spectrogram || imageW <= 0 || imageH <= 0) return
+
+    canvas ??= document.createElement("canvas")
+    if (!pixels) {
+      canvas.width = SPECTRAL_HISTORY
+      canvas.height = DOPPLER_ENSEMBLE
+      pixels = new ImageData(SPECTRAL_HISTORY, DOPPLER_ENSEMBLE)
+    }
+    const data = pixels.data
+    data.fill(0)
+    const { lines } = spectrogram
+    const offset = SPECTRAL_HISTORY - lines.length
+    for (let c = 0; c < lines.length; c++) {
+      const { power } = lines[c]
+      for (let bin = 0; bin < DOPPLER_ENSEMBLE; bin++) {
+        const o = ((DOPPLER_ENSEMBLE - 1 - bin) * SPECTRAL_HISTORY + offset + c) * 4
+        const v = Math.max(0, Math.min(1, power[bin] / dynamicRange)) * 255
+        data[o] = data[o + 1] = data[o + 2] = v
+        data[o + 3] = 255
+      }
+    }
+    canvas.getContext("2d")!.putImageData(pixels, 0, 0)
+    const left = AXIS_WIDTH, top = PADDING
+    ctx.imageSmoothingEnabled = true
+    ctx.drawImage(canvas, left, top, imageW, imageH)
+
+    // Bin b is centred on (b - N/2) / N of twice the Nyquist velocity
+    const { nyquist } = spectrogram
+    const binH = imageH / DOPPLER_ENSEMBLE
+    const rowOf = (v: number) => top + imageH - ((v / (2 * nyquist)) * DOPPLER_ENSEMBLE + DOPPLER_ENSEMBLE / 2 + 0.5) * binH
+
+    // Velocity ruler and baseline
+    const nyquistCm = nyquist * 100
+    const majorCm = NICE_STEPS_CM_S.find(cm => (cm / (2 * nyquistCm)) * imageH >= 24) ?? NICE_STEPS_CM_S[NICE_STEPS_CM_S.length - 1]
+    ctx.strokeStyle = "rgba(148,163,184,0.45)"
+    ctx.fillStyle = "rgba(148,163,184,0.75)"
+    ctx.lineWidth = 1
+    ctx.font = "500 10px system-ui, sans-serif"
+    ctx.textAlign = "right"; ctx.textBaseline = "middle"
+    for (let cm = -Math.floor(nyquistCm / majorCm) * majorCm; cm <= nyquistCm; cm += majorCm) {
+      const y = rowOf(cm / 100)
+      if (y < top || y > top + imageH) continue
+      ctx.beginPath(); ctx.moveTo(left - 6, y); ctx.lineTo(left - 2, y); ctx.stroke()
+      ctx.fillText(`${cm}`, left - 8, y)
+    }
+    ctx.save()
+    ctx.translate(10, top + imageH / 2)
+    ctx.rotate(-Math.PI / 2)
+    ctx.textAlign = "center"
+    ctx.fillText("cm/s", 0, 0)
+    ctx.restore()
+    ctx.strokeStyle = "rgba(56,189,248,0.5)"
+    ctx.beginPath(); ctx.moveTo(left, rowOf(0)); ctx.lineTo(left + imageW, rowOf(0)); ctx.stroke()
+
+    // Mean velocity, broken where there was no flow to measure and where it wraps around
+    const colW = imageW / SPECTRAL_HISTORY
+    ctx.strokeStyle = "rgba(251,191,36,0.85)"
+    ctx.lineWidth = 1.25
+    ctx.beginPath()
+    let previous: number | null = null
+    for (let c = 0; c < lines.length; c++) {
+      const { mean } = lines[c]
+      if (mean !== null) {
+        const x = left + (offset + c + 0.5) * colW, y = rowOf(mean)
+        if (previous !== null && Math.abs(mean - previous) < nyquist) ctx.lineTo(x, y)
+        else ctx.moveTo(x, y)
+      }
+      previous = mean
+    }
+    ctx.stroke()
+  }
+}
+
+/**
+ * Paints a `ColorFlowMap` over the scene: red for flow toward the probe, blue
+ * away, brightening toward yellow and cyan as the velocity nears the Nyquist
+ * limit, so aliased flow shows as a sudden jump from one to the other.
+ */
+export function createColorFlowRenderer() {
+  let canvas: HTMLCanvasElement | null = null
+  let pixels: ImageData | null = null
+  let shown: ColorFlowMap | null = null
+
+  return function drawColorFlow(ctx: CanvasRenderingContext2D, map: ColorFlowMap) {
+    const { nx, ny, velocity, nyquist } = map
+    canvas ??= document.createElement("canvas")
+    if (!pixels || pixels.width !== nx || pixels.height !== ny) {
+      canvas.width = nx
+      canvas.height = ny
+      pixels = new ImageData(nx, ny)
+      shown = null
+    }
+    if (shown !== map) {
+      shown = map
+      const data = pixels.data
+      for (let i = 0, o = 0; i < velocity.length; i++, o += 4) {
+        const v = velocity[i]
+        if (Number.isNaN(v)) { data[o + 3] = 0; continue }
+        const t = Math.min(1, Math.abs(v) / nyquist)
+        const base = 110 + 145 * Math.min(1, 2 * t)
+        const tint = Math.max(0, 2 * t - 1) * 220
+        data[o] = v > 0 ? base : 0
+        data[o + 1] = tint
+        data[o + 2] = v > 0 ? 0 : base
+        data[o + 3] = 215
+      }
+      canvas.getContext("2d")!.putImageData(pixels, 0, 0)
+    }
+    ctx.imageSmoothingEnabled = true
+    ctx.drawImage(canvas, map.x0, map.y0, nx * COLOR_FLOW_CELL, ny * COLOR_FLOW_CELL)
+  }
+}
@@ -0,0 +1,461 @@
+import {
+  BLOOD_VELOCITY_SCALE,
+  COLOR_FLOW_CELL,
+  COLOR_FLOW_ENSEMBLE,
+  COLOR_FLOW_INTERVAL,
+  COLOR_FLOW_SCATTERERS,
+  DOPPLER_ENSEMBLE,
+  DOPPLER_NOISE,
+  GATE_SCATTERERS,
+  HEMATOCRIT,
+  SPECTRAL_HISTORY,
+  SPECTRAL_LINE_INTERVAL,
+  WALL_FILTER,
+} from "./constants"
+import type { DopplerConfig } from "./config"
+import { nearestOnVessel, type ProbeLayout } from "./geometry"
+import { createRng, gaussianAt, type Rng } from "./random"
+import type { VesselActivity } from "./stimulus"
+import type { Vessel } from "./types"
+import type { Units } from "./units"
+
+/** Sample volume of a pulsed-wave Doppler beam. */
+export interface DopplerGate {
+  /** Centre, sim px */
+  x: number
+  y: number
+  /** Unit direction of the Doppler beam, away from the probe */
+  ux: number
+  uy: number
+  /** Length along the beam, sim px; the volume is as wide as it is long */
+  length: number
+}
+
+/**
+ * The configured gate in sim px, on a beam from the centre of the aperture,
+ * or null if none has been placed.
+ */
+export function getDopplerGate(doppler: DopplerConfig, layout: ProbeLayout, units: Units): DopplerGate | null {
+  if (!doppler.gate) return null
+  const depth = units.mmToPx(doppler.gate.depth), lateral = units.mmToPx(doppler.gate.lateral)
+  const range = Math.hypot(depth, lateral) || 1
+  return {
+    x: layout.faceX + depth,
+    y: (layout.probeTop + layout.probeBot) / 2 + lateral,
+    ux: depth / range,
+    uy: lateral / range,
+    length: units.mmToPx(doppler.gateLength),
+  }
+}
+
+/** Fastest flow along the beam measured without aliasing, m/s: a quarter wavelength per pulse interval */
+export function nyquistVelocity(units: Units, frequency: number, prf: number) {
+  return (units.pxToMm(units.wavelengthPx(frequency)) * 1e-3 * prf * 1e3) / 4
+}
+
+export interface PwDopplerSettings {
+  /** Pulse repetition frequency, kHz */
+  prf: number
+  /** Transmit centre frequency, MHz */
+  frequency: number
+}
+
+export interface SpectralLine {
+  /**
+   * Power per velocity bin over the noise floor, dB. Bin `DOPPLER_ENSEMBLE / 2`
+   * is at rest; bins above it hold flow toward the probe
+   */
+  power: Float32Array
+  /** Mean velocity toward the probe from the lag-one phase shift, m/s; null if only noise came back */
+  mean: number | null
+}
+
+export interface Spectrogram {
+  /** Oldest first; the newest is line number `last` */
+  lines: SpectralLine[]
+  last: number
+  /** Velocity at either edge of the spectrum, m/s; faster flow wraps around */
+  nyquist: number
+  /** Physical seconds of slow time each line covers */
+  lineDuration: number
+}
+
+/** A blood scatterer, placed relative to where a vessel crosses the gate */
+interface Scatterer {
+  /** Along the vessel at slow time zero, and across it, sim px */
+  s: number
+  r: number
+  /** Physical speed along the vessel, sim px per physical second */
+  speed: number
+  amplitude: number
+  phase: number
+}
+
+/** A vessel near the gate, straightened around its closest point */
+interface Crossing {
+  x: number
+  y: number
+  /** Direction of flow */
+  ux: number
+  uy: number
+  /** Scatterers leaving one end of the stretch followed come back in at the other */
+  halfLength: number
+  scatterers: Scatterer[]
+}
+
+/**
+ * The vessels near the gate with blood flowing as `activity` has it: faster
+ * flow speeds the scatterers up, and more red cells make them echo more
+ * strongly. The same `rng` stream places them the same way whatever the flow.
+ */
+function findCrossings(
+  vessels: readonly Vessel[],
+  activity: readonly VesselActivity[],
+  gate: DopplerGate,
+  units: Units,
+  rng: Rng,
+): Crossing[] {
+  const reach = 1.5 * gate.length
+  const crossings: Crossing[] = []
+  vessels.forEach((vessel, v) => {
+    const near = nearestOnVessel(vessel, gate.x, gate.y)
+    const radius = vessel.radius
+    if (near.distance > radius + reach) return
+    const halfLength = reach + radius
+    // Laminar flow: a parabolic profile peaking at twice the mean on the axis
+    const { flowSpeed, hematocrit } = activity[v]
+    const mean = flowSpeed * BLOOD_VELOCITY_SCALE, strength = Math.sqrt(hematocrit / HEMATOCRIT)
+    const scatterers = Array.from({ length: GATE_SCATTERERS }, () => {
+      const r = (2 * rng() - 1) * radius
+      return {
+        s: (2 * rng() - 1) * halfLength,
+        r,
+        speed: units.mmToPx(2 * mean * (1 - (r / radius) ** 2) * 1e3),
+        amplitude: strength * Math.sqrt(-Math.log(1 - rng())),
+        phase: 2 * Math.PI * rng(),
+      }
+    })
+    crossings.push({ x: near.x, y: near.y, ux: near.ux, uy: near.uy, halfLength, scatterers })
+  })
+  return crossings
+}
+
+/** Power of the complex receive noise on each slow-time sample */
+const NOISE_POWER = 2 * DOPPLER_NOISE ** 2
+
+/**
+ * Kasai's autocorrelation estimator: mean power of the first `count` slow-time
+ * samples, and the average phase step from one to the next (lag-one
+ * autocorrelation), which is 4π·v·T/λ for scatterers moving at v.
+ */
+function autocorrelate(re: ArrayLike<number>, im: ArrayLike<number>, count: number) {
+  let r0 = 0, r1re = 0, r1im = 0
+  for (let n = 0; n < count; n++) {
+    r0 += re[n] * re[n] + im[n] * im[n]
+    if (n === 0) continue
+    r1re += re[n] * re[n - 1] + im[n] * im[n - 1]
+    r1im += im[n] * re[n - 1] - re[n] * im[n - 1]
+  }
+  return { power: r0 / count, phaseStep: Math.atan2(r1im, r1re) }
+}
+
+/** In-place radix-2 FFT; the length must be a power of two. */
+function fft(re: Float64Array, im: Float64Array) {
+  const n = re.length
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1
+    for (; j & bit; bit >>= 1) j ^= bit
+    j ^= bit
+    if (i < j) {
+      const tr = re[i], ti = im[i]
+      re[i] = re[j]; im[i] = im[j]
+      re[j] = tr; im[j] = ti
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const step = (-2 * Math.PI) / size
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const c = Math.cos(step * k), s = Math.sin(step * k)
+        const a = start + k, b = a + size / 2
+        const tr = re[b] * c - im[b] * s, ti = re[b] * s + im[b] * c
+        re[b] = re[a] - tr; im[b] = im[a] - ti
+        re[a] += tr; im[a] += ti
+      }
+    }
+  }
+}
+
+/**
+ * Pulsed-wave Doppler at a sample gate. Each spectral line is an ensemble of
+ * `DOPPLER_ENSEMBLE` transmits at the Doppler PRF: the echo from the gate is
+ * sampled once per transmit, and blood moving along the beam turns the
+ * sample's phase by 4π·v·T/λ from one to the next. The lines are the power
+ * spectra of those slow-time signals, plus the mean velocity from the
+ * average phase shift between neighbours. Either wraps around past the
+ * Nyquist velocity λ·PRF/4, which is aliasing.
+ *
+ * The gate echo is summed from blood scatterers flowing through the sample
+ * volume at physical velocities: lines follow each other on the physical
+ * time scale of the Doppler PRF, one every `SPECTRAL_LINE_INTERVAL` of sim
+ * time, and the animated cells are far too fast to stand in for blood on it.
+ * Line n only depends on n and the vessels' activity, so replays and seeks
+ * show the same spectra.
+ */
+export function createPwDoppler(seed: number) {
+  let key = ""
+  let vesselsSeen: readonly Vessel[] | null = null
+  let flowKey = ""
+  let crossings: Crossing[] = []
+  let spectrogram: Spectrogram | null = null
+  const taper = Array.from({ length: DOPPLER_ENSEMBLE }, (_, n) => 0.5 - 0.5 * Math.cos((2 * Math.PI * (n + 0.5)) / DOPPLER_ENSEMBLE))
+  const taperPower = taper.reduce((sum, w) => sum + w * w, 0)
+  const re = new Float64Array(DOPPLER_ENSEMBLE)
+  const im = new Float64Array(DOPPLER_ENSEMBLE)
+
+  function line(index: number, gate: DopplerGate, prfHz: number, wavelength: number, nyquist: number): SpectralLine {
+    const sigmaSq = (gate.length / 2) ** 2
+    const k = (4 * Math.PI) / wavelength
+    for (let n = 0; n < DOPPLER_ENSEMBLE; n++) {
+      const slow = index * DOPPLER_ENSEMBLE + n
+      const tau = slow / prfHz
+      let zr = DOPPLER_NOISE * gaussianAt(seed, 2 * slow), zi = DOPPLER_NOISE * gaussianAt(seed, 2 * slow + 1)
+      for (const c of crossings) {
+        const span = 2 * c.halfLength
+        for (const sc of c.scatterers) {
+          const s = ((((sc.s + sc.speed * tau + c.halfLength) % span) + span) % span) - c.halfLength
+          const dx = c.x + c.ux * s - c.uy * sc.r - gate.x
+          const dy = c.y + c.uy * s + c.ux * sc.r - gate.y
+          const axial = dx * gate.ux + dy * gate.uy
+          const lateral = dy * gate.ux - dx * gate.uy
+          const weight = sc.amplitude * Math.exp(-(axial * axial + lateral * lateral) / (2 * sigmaSq))
+          if (weight < 1e-4) continue
+          // Round trip shortens as the scatterer comes closer, advancing the phase
+          const phase = sc.phase - k * axial
+          zr += weight * Math.cos(phase)
+          zi += weight * Math.sin(phase)
+        }
+      }
+      re[n] = zr
+      im[n] = zi
+    }
+
+    const { power: received, phaseStep } = autocorrelate(re, im, DOPPLER_ENSEMBLE)
+    const mean = received > 2 * NOISE_POWER ? (phaseStep / Math.PI) * nyquist : null
+
+    for (let n = 0; n < DOPPLER_ENSEMBLE; n++) { re[n] *= taper[n]; im[n] *= taper[n] }
+    fft(re, im)
+    const floor = NOISE_POWER * taperPower
+    const power = new Float32Array(DOPPLER_ENSEMBLE)
+    for (let bin = 0; bin < DOPPLER_ENSEMBLE; bin++) {
+      const j = (bin + DOPPLER_ENSEMBLE / 2) % DOPPLER_ENSEMBLE
+      power[j] = 10 * Math.log10((re[bin] * re[bin] + im[bin] * im[bin]) / floor + 1e-12)
+    }
+    return { power, mean }
+  }
+
+  /**
+   * Spectrogram up to sim time `time`. Adds the lines due since the last call,
+   * with blood flowing as `activity` has it; starts afresh when the gate,
+   * settings or vessels change or time goes back.
+   */
+  return function spectrogramAt(
+    time: number,
+    vessels: readonly Vessel[],
+    activity: readonly VesselActivity[],
+    gate: DopplerGate,
+    settings: PwDopplerSettings,
+    units: Units,
+  ): Spectrogram {
+    const prfHz = settings.prf * 1e3
+    const wavelength = units.wavelengthPx(settings.frequency)
+    const nyquist = nyquistVelocity(units, settings.frequency, settings.prf)
+    const now = Math.floor(time / SPECTRAL_LINE_INTERVAL)
+    const nextKey = [gate.x, gate.y, gate.ux, gate.uy, gate.length, settings.prf, settings.frequency].join()
+    if (nextKey !== key || vessels !== vesselsSeen) {
+      key = nextKey
+      vesselsSeen = vessels
+      flowKey = ""
+      spectrogram = null
+    }
+    // Lines already shown keep the flow they were measured at
+    const nextFlow = activity.map(a => [a.flowSpeed, a.hematocrit]).join()
+    if (nextFlow !== flowKey) {
+      flowKey = nextFlow
+      crossings = findCrossings(vessels, activity, gate, units, createRng(seed))
+    }
+    if (!spectrogram || now < spectrogram.last) {
+      spectrogram = { lines: [], last: now - 1, nyquist, lineDuration: DOPPLER_ENSEMBLE / prfHz }
+    }
+    const first = Math.max(spectrogram.last + 1, now - SPECTRAL_HISTORY + 1)
+    for (let i = first; i <= now; i++) spectrogram.lines.push(line(i, gate, prfHz, wavelength, nyquist))
+    if (spectrogram.lines.length > SPECTRAL_HISTORY) spectrogram.lines.splice(0, spectrogram.lines.length - SPECTRAL_HISTORY)
+    spectrogram.last = now
+    return spectrogram
+  }
+}
+
+// ─── Colour flow ─────────────────────────────────────────────────────────────
+
+/** Mean velocity over a grid of cells covering the imaged region. */
+export interface ColorFlowMap {
+  /** Top-left corner of the grid, sim px; cells are `COLOR_FLOW_CELL` square */
+  x0: number
+  y0: number
+  nx: number
+  ny: number
+  /** Velocity toward the probe per cell, m/s, row-major; NaN where no flow was found */
+  velocity: Float32Array
+  nyquist: number
+}
+
+export interface ColorFlowSettings extends PwDopplerSettings {
+  /** Unit direction the transmits travel in */
+  ux: number
+  uy: number
+}
+
+/** A grid cell inside a vessel's lumen */
+export interface FlowCell {
+  index: number
+  /** Index of the vessel it lies in */
+  vessel: number
+  /** Direction of flow */
+  ux: number
+  uy: number
+  /** Signed distance from the centreline, sim px */
+  offset: number
+  radius: number
+}
+
+/** The cells of an `nx` × `ny` grid of `cell`-px squares from (x0, y0) whose centres lie inside a vessel. */
+export function findFlowCells(
+  vessels: readonly Vessel[],
+  x0: number,
+  y0: number,
+  nx: number,
+  ny: number,
+  cell: number,
+): FlowCell[] {
+  // Closest centreline per cell, visiting only the cells near each segment
+  const best = new Float32Array(nx * ny).fill(Infinity)
+  const found: (FlowCell | undefined)[] = new Array(nx * ny)
+  vessels.forEach((vessel, v) => {
+    const { points, radius } = vessel
+    for (let j = 0; j < points.length - 1; j++) {
+      const a = points[j], b = points[j + 1]
+      const dx = b.x - a.x, dy = b.y - a.y
+      const lenSq = dx * dx + dy * dy
+      if (lenSq === 0) continue
+      const len = Math.sqrt(lenSq)
+      const ux = dx / len, uy = dy / len
+      const ix0 = Math.max(0, Math.floor((Math.min(a.x, b.x) - radius - x0) / cell))
+      const ix1 = Math.min(nx - 1, Math.floor((Math.max(a.x, b.x) + radius - x0) / cell))
+      const iy0 = Math.max(0, Math.floor((Math.min(a.y, b.y) - radius - y0) / cell))
+      const iy1 = Math.min(ny - 1, Math.floor((Math.max(a.y, b.y) + radius - y0) / cell))
+      for (let iy = iy0; iy <= iy1; iy++) {
+        for (let ix = ix0; ix <= ix1; ix++) {
+          const x = x0 + (ix + 0.5) * cell, y = y0 + (iy + 0.5) * cell
+          const t = Math.max(0, Math.min(1, ((x - a.x) * dx + (y - a.y) * dy) / lenSq))
+          const px = a.x + t * dx, py = a.y + t * dy
+          const distance = Math.sqrt((x - px) ** 2 + (y - py) ** 2)
+          const index = iy * nx + ix
+          if (distance > radius || distance >= best[index]) continue
+          best[index] = distance
+          const side = Math.sign(ux * (y - py) - uy * (x - px)) || 1
+          found[index] = { index, vessel: v, ux, uy, offset: side * distance, radius }
+        }
+      }
+    }
+  })
+  return found.filter((c): c is FlowCell => c !== undefined)
+}
+
+/**
+ * Colour flow Doppler: for every cell of the region, an ensemble of
+ * `COLOR_FLOW_ENSEMBLE` transmits along the steering direction, reduced to a
+ * mean velocity with the same autocorrelation (Kasai) estimator as the
+ * spectral mean. Blood moves along each vessel's centreline at the flow
+ * speed its activity gives it, with a laminar profile across it, so only the
+ * part of the flow along the beam registers: vessels running across the beam
+ * show no colour. Slow flow is cut by a wall filter and flow past the Nyquist
+ * velocity aliases. Frame n only depends on n and the vessels' activity, so
+ * replays show the same maps.
+ */
+export function createColorFlow(seed: number) {
+  let geometryKey = ""
+  let vesselsSeen: readonly Vessel[] | null = null
+  let cells: FlowCell[] = []
+  let frameKey = ""
+  let map: ColorFlowMap | null = null
+  const re = new Float64Array(COLOR_FLOW_ENSEMBLE)
+  const im = new Float64Array(COLOR_FLOW_ENSEMBLE)
+
+  return function colorFlowAt(
+    time: number,
+    vessels: readonly Vessel[],
+    activity: readonly VesselActivity[],
+    left: number,
+    top: number,
+    width: number,
+    height: number,
+    settings: ColorFlowSettings,
+    units: Units,
+  ): ColorFlowMap {
+    const nx = Math.max(1, Math.ceil(width / COLOR_FLOW_CELL))
+    const ny = Math.max(1, Math.ceil(height / COLOR_FLOW_CELL))
+    const nextGeometry = [left, top, nx, ny].join()
+    if (nextGeometry !== geometryKey || vessels !== vesselsSeen) {
+      geometryKey = nextGeometry
+      vesselsSeen = vessels
+      cells = findFlowCells(vessels, left, top, nx, ny, COLOR_FLOW_CELL)
+      frameKey = ""
+    }
+    const frame = Math.floor(time / COLOR_FLOW_INTERVAL)
+    const nextFrame = [
+      frame, settings.prf, settings.frequency, settings.ux, settings.uy, ...activity.map(a => [a.flowSpeed, a.hematocrit]),
+    ].join()
+    if (map && nextFrame === frameKey) return map
+    frameKey = nextFrame
+
+    const nyquist = nyquistVelocity(units, settings.frequency, settings.prf)
+    const velocity = new Float32Array(nx * ny).fill(NaN)
+    for (const c of cells) {
+      // Fresh blood in every cell each frame, the same on every replay of the frame
+      const rng = createRng(seed ^ Math.imul(frame + 1, 0x85ebca6b) ^ Math.imul(c.index + 1, 0xc2b2ae35))
+      re.fill(0)
+      im.fill(0)
+      // Component of the flow direction toward the probe, against the beam
+      const toward = -(c.ux * settings.ux + c.uy * settings.uy)
+      const { flowSpeed, hematocrit } = activity[c.vessel]
+      const mean = flowSpeed * BLOOD_VELOCITY_SCALE, strength = Math.sqrt(hematocrit / HEMATOCRIT)
+      for (let m = 0; m < COLOR_FLOW_SCATTERERS; m++) {
+        const r = c.offset + (rng() - 0.5) * COLOR_FLOW_CELL
+        const speed = Math.abs(r) < c.radius ? 2 * mean * (1 - (r / c.radius) ** 2) : 0
+        // Phase step per transmit: π at the Nyquist velocity
+        const step = (Math.PI * speed * toward) / nyquist
+        const amplitude = strength * Math.sqrt(-Math.log(1 - rng())), phase = 2 * Math.PI * rng()
+        // Turn a phasor by `step` per transmit
+        let zr = amplitude * Math.cos(phase), zi = amplitude * Math.sin(phase)
+        const cs = Math.cos(step), sn = Math.sin(step)
+        for (let n = 0; n < COLOR_FLOW_ENSEMBLE; n++) {
+          re[n] += zr
+          im[n] += zi
+          const next = zr * cs - zi * sn
+          zi = zr * sn + zi * cs
+          zr = next
+        }
+      }
+      for (let n = 0; n < COLOR_FLOW_ENSEMBLE; n++) {
+        const slow = (frame * nx * ny + c.index) * COLOR_FLOW_ENSEMBLE + n
+        re[n] += DOPPLER_NOISE * gaussianAt(seed, 2 * slow)
+        im[n] += DOPPLER_NOISE * gaussianAt(seed, 2 * slow + 1)
+      }
+      const { power, phaseStep } = autocorrelate(re, im, COLOR_FLOW_ENSEMBLE)
+      const v = (phaseStep / Math.PI) * nyquist
+      if (power > 2 * NOISE_POWER && Math.abs(v) >= WALL_FILTER * nyquist) velocity[c.index] = v
+    }
+    map = { x0: left, y0: top, nx, ny, velocity, nyquist }
+    return map
+  }
+}
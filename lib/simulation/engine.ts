@@ -0,0 +1,827 @@
+import {
+  DEFAULT_CONFIG,
+  type PlaybackConfig,
+  type SimulationConfig,
+  type SolverMode,
+  type StimulusConfig,
+  type TransmitConfig,
+} from "./config"
+import { rayleighAmplitude, sphericalSpreading, toDisplay } from "./amplitude"
+import {
+  brainRays,
+  elementDelays,
+  getBeamShape,
+  incidentAt,
+  transmitFront,
+  transmitRays,
+  type TransmitRay,
+} from "./beam"
+import { addEcho, copyChannelData, createChannelData, recordSpan } from "./channels"
+import { ELEMENT_DECAY_RATE, FIXED_DT, MAX_SUBSTEPS } from "./constants"
+import { AcousticGrid, MIN_CELLS_PER_WAVELENGTH, sourceDuration, sourceSignal } from "./fdtd"
+import { elementCenterY, getProbeLayout, getSkullBounds, getVesselPoint, type ProbeLayout } from "./geometry"
+import {
+  attenuationFactor,
+  fillMedium,
+  getMediaColumns,
+  getTissueProperties,
+  RBC_DENSITY,
+  type MediaColumn,
+} from "./media"
+import { buildReflectors, type Reflector } from "./reflections"
+import { faceArrivals } from "./refraction"
+import { createRng, randomSeed } from "./random"
+import {
+  buildRBCs,
+  buildTissue,
+  buildVesselPaths,
+  getBrainFrame,
+  projectTissue,
+  projectVessels,
+  pulsationShift,
+} from "./scene"
+import { experimentSeconds, vesselActivity } from "./stimulus"
+import { Timeline, type SimulationInput } from "./timeline"
+import { createUnits, type Units } from "./units"
+import type { ChannelData, PressureField, RBC, SimulationState } from "./types"
+
+/** Element activation per unit of received pressure in the wave solver */
+const RECEIVE_GAIN = 6
+/** Element activation for a full-strength echo or reflection, before log compression */
+const ECHO_RECEIVE_GAIN = 0.6
+const REFLECTION_RECEIVE_GAIN = 3
+/** Echoes born fainter than this display opacity are not worth following */
+const MIN_ECHO_OPACITY = 0.02
+/** Pressure at a cell that counts as the pulse reaching it */
+const HIT_PRESSURE = 0.08
+
+function copyField(f: PressureField): PressureField {
+  return { ...f, p: f.p.slice(), vx: f.vx.slice(), vy: f.vy.slice() }
+}
+
+export interface SimulationEngineOptions {
+  seed?: number
+  /** Resolved configuration, see `resolveConfig` */
+  config?: SimulationConfig
+}
+
+/**
+ * Framework-free model of the pulse-echo scene: pulses travel away from the
+ * probe face, scatter off red blood cells into spherical echoes, and echoes
+ * that reach the face excite the transducer elements. With `solver.mode`
+ * "fdtd" the pulses instead drive a finite-difference wave solver and the
+ * elements pick up the pressure field at the face. Holds no DOM or canvas
+ * references so it can run headless and feed any renderer.
+ *
+ * All randomness is drawn from a PRNG seeded with `seed`, so the same seed and
+ * the same sequence of calls always reproduce the same scene and echoes.
+ */
+export class SimulationEngine {
+  private s: SimulationState = {
+    vesselPaths: [],
+    vessels: [],
+    tissueScatterers: [],
+    tissue: [],
+    tissueShift: 0,
+    rbcs: [],
+    echoes: [],
+    reflections: [],
+    pulses: [],
+    nextPulseId: 0,
+    time: 0,
+    stepIndex: 0,
+    transmit: { ...DEFAULT_CONFIG.transmit },
+    nextTransmitAt: 0,
+    dims: { w: 0, h: 0 },
+    elementActivations: [],
+    solver: "geometric",
+    stimulus: DEFAULT_CONFIG.stimulus,
+    stimulusStart: 0,
+    field: null,
+    channels: null,
+  }
+  private initialized = false
+  private accumulator = 0
+  private _seed: number
+  private _config: SimulationConfig
+  private _playback: PlaybackConfig
+  private _units: Units
+  private _media: MediaColumn[]
+  private _reflectors: Reflector[] = []
+  /** Rays and element delays new pulses are fired with, for the current beam settings */
+  private _transmitRays: TransmitRay[] = []
+  private _transmitDelays: number[] = []
+  private timeline = new Timeline()
+  /** Wave solver backing `s.field`; only exists in "fdtd" mode */
+  private grid: AcousticGrid | null = null
+
+  constructor(options: SimulationEngineOptions = {}) {
+    this._seed = options.seed ?? randomSeed()
+    this._config = options.config ?? DEFAULT_CONFIG
+    this.s.transmit = { ...this._config.transmit }
+    this.s.solver = this._config.solver.mode
+    this.s.stimulus = this._config.stimulus
+    this._playback = { ...this._config.playback }
+    this._units = createUnits(this._config)
+    this._media = getMediaColumns(this._config)
+    this.s.elementActivations = new Array(this._config.probe.numElements).fill(0)
+  }
+
+  get seed() {
+    return this._seed
+  }
+
+  get config(): Readonly<SimulationConfig> {
+    return this._config
+  }
+
+  /** Physical units for the current configuration */
+  get units(): Units {
+    return this._units
+  }
+
+  /** Gel, skull layers and brain between the probe face and the vessels */
+  get media(): readonly MediaColumn[] {
+    return this._media
+  }
+
+  /** Skull interfaces and vessel walls that reflect pulses, for `ReflectedWave.reflector` */
+  get reflectors(): readonly Reflector[] {
+    return this._reflectors
+  }
+
+  /** Firing delay of each element for the current beam settings, tissue px after the first */
+  get transmitDelays(): readonly number[] {
+    return this._transmitDelays
+  }
+
+  /** Absorption per px of path per dB/cm/MHz at the current transmit frequency: the ray tracers' `loss` */
+  get loss() {
+    return (this.s.transmit.frequency * this._units.mmPerPx) / 10
+  }
+
+  /** Current automatic transmit settings. Starts from `config.transmit`. */
+  get transmit(): Readonly<TransmitConfig> {
+    return this.s.transmit
+  }
+
+  /** Current pause state and time scale. Starts from `config.playback`. */
+  get playback(): Readonly<PlaybackConfig> {
+    return this._playback
+  }
+
+  /**
+   * Depth (sim px past the probe face) beyond which echoes arrive after the
+   * next pulse has already left, and so get attributed to the wrong pulse.
+   */
+  get maxUnambiguousDepth() {
+    return this._config.medium.waveSpeed / (2 * this.s.transmit.prf)
+  }
+
+  /**
+   * RF channel data of the latest transmit: a trace per element sampled at
+   * `receive.samplingRate`, noise included, filled in as echoes return. The
+   * engine keeps writing to it; `copyChannelData` takes a copy to keep.
+   */
+  get channels(): Readonly<ChannelData> | null {
+    return this.s.channels
+  }
+
+  /** Reachable span of the recorded timeline and where the model currently is in it */
+  get timelineRange() {
+    return { start: this.timeline.startTime, end: this.timeline.liveTime, time: this.s.time }
+  }
+
+  /** Live, read-only view of the current state. Do not hold on to it across steps. */
+  get state(): Readonly<SimulationState> {
+    return this.s
+  }
+
+  get isInitialized() {
+    return this.initialized
+  }
+
+  /**
+   * Sets the simulation area to `w` x `h`. The first call builds the scene;
+   * later calls only re-project the vessels and carry pulses, echoes and
+   * cells over, so resizes and orientation flips keep what is on screen.
+   */
+  resize(w: number, h: number) {
+    const s = this.s
+    if (!this.initialized) {
+      s.dims = { w, h }
+      this.reset()
+      return
+    }
+    const from = getBrainFrame(s.dims.w, s.dims.h, this._config)
+    const to = getBrainFrame(w, h, this._config)
+    s.dims = { w, h }
+    s.vessels = projectVessels(s.vesselPaths, w, h, this._config)
+    s.tissue = projectTissue(s.tissueScatterers, s.vessels, w, h, this._config)
+    // Echo origins sit on cells, so move them with the tissue. Pulses stay put:
+    // their x is distance travelled from the probe face.
+    for (const e of s.echoes) {
+      e.cx = to.left + ((e.cx - from.left) / from.width) * to.width
+      e.cy = (e.cy / from.height) * to.height
+      Object.assign(e, this.echoArrivals(e.cx, e.cy, e.amplitude))
+    }
+    // Reflected fronts follow their reflector, which is rebuilt for the new geometry
+    this.syncBeam()
+    this.buildReflectors()
+    // The solver grid cannot be stretched; waves in flight restart from silence
+    this.syncGrid()
+  }
+
+  /** Rebuilds the scene from the seed at the current size and restarts the clock. */
+  reset() {
+    const s = this.s
+    const { probe, interaction } = this._config
+    const { w, h } = s.dims
+    s.vesselPaths = buildVesselPaths()
+    s.vessels = projectVessels(s.vesselPaths, w, h, this._config)
+    // A stream of its own, so the cells come out the same whatever the tissue
+    s.tissueScatterers = buildTissue(this._config.tissue.scatterers, createRng((this._seed ^ 0x2545f491) >>> 0))
+    s.tissue = projectTissue(s.tissueScatterers, s.vessels, w, h, this._config)
+    s.rbcs = buildRBCs(createRng(this._seed))
+    s.echoes = []
+    s.reflections = []
+    s.time = 0
+    s.stepIndex = 0
+    s.tissueShift = pulsationShift(experimentSeconds(0), this._config.tissue, this._units)
+    s.transmit = { ...this._config.transmit }
+    this.syncBeam()
+    this.buildReflectors()
+    s.pulses = []
+    s.channels = null
+    if (interaction.pulseOnStart) this.transmitPulse()
+    s.elementActivations = new Array(probe.numElements).fill(0)
+    s.nextTransmitAt = 0
+    s.solver = this._config.solver.mode
+    s.stimulus = this._config.stimulus
+    s.stimulusStart = 0
+    this.grid = null
+    this.syncGrid()
+    this.accumulator = 0
+    this.initialized = true
+    this.timeline.clear()
+    this.timeline.record(s, () => this.snapshot())
+  }
+
+  /** Switches to a new seed and rebuilds the scene at the current size. */
+  reseed(seed: number) {
+    if (seed === this._seed) return
+    this._seed = seed
+    if (this.initialized) this.reset()
+  }
+
+  /** Applies a new resolved configuration and rebuilds the scene at the current size. */
+  configure(config: SimulationConfig) {
+    this._config = config
+    this.s.transmit = { ...config.transmit }
+    this.s.solver = config.solver.mode
+    this.s.stimulus = config.stimulus
+    this._playback = { ...config.playback }
+    this._units = createUnits(config)
+    this._media = getMediaColumns(config)
+    if (this.initialized) this.reset()
+    else this.s.elementActivations = new Array(config.probe.numElements).fill(0)
+  }
+
+  /** Starts or stops continuous transmission and/or changes its PRF. */
+  setTransmit(transmit: Partial<TransmitConfig>) {
+    const current = this.s.transmit
+    const changed = (Object.keys(transmit) as (keyof TransmitConfig)[])
+      .some(key => transmit[key] !== undefined && transmit[key] !== current[key])
+    if (changed) this.input({ type: "transmit", transmit })
+  }
+
+  /** Switches between ideal wavefronts and the finite-difference wave solver. */
+  setSolver(mode: SolverMode) {
+    if (mode !== this.s.solver) this.input({ type: "solver", mode })
+  }
+
+  /** Changes the stimulus protocol; switching it on starts the protocol from the beginning. */
+  setStimulus(stimulus: StimulusConfig) {
+    const current = this.s.stimulus
+    // Arrays compare by their elements
+    const changed = (Object.keys(stimulus) as (keyof StimulusConfig)[])
+      .some(key => String(stimulus[key]) !== String(current[key]))
+    if (changed) this.input({ type: "stimulus", stimulus })
+  }
+
+  /** Pauses/resumes and/or changes how many sim seconds pass per wall-clock second. */
+  setPlayback(playback: Partial<PlaybackConfig>) {
+    this._playback = { ...this._playback, ...playback }
+  }
+
+  firePulse() {
+    if (!this.initialized) return false
+    this.input({ type: "pulse" })
+    return true
+  }
+
+  /** Applies a user input now and logs it, discarding any recorded future it contradicts. */
+  private input(input: SimulationInput) {
+    const s = this.s
+    if (this.initialized) {
+      if (s.stepIndex < this.timeline.liveStep) this.timeline.branch(s.stepIndex, s.time)
+      this.timeline.logInput(s.stepIndex, input)
+    }
+    this.applyInput(input)
+  }
+
+  private applyInput(input: SimulationInput) {
+    const s = this.s
+    switch (input.type) {
+      case "pulse": {
+        this.transmitPulse()
+        break
+      }
+      case "solver": {
+        s.solver = input.mode
+        s.echoes = []
+        s.reflections = []
+        this.syncGrid()
+        break
+      }
+      case "transmit": {
+        const old = s.transmit
+        s.transmit = { ...s.transmit, ...input.transmit }
+        this.transmitChanged(old)
+        if (s.transmit.frequency !== old.frequency && this.grid) this.fillGrid(this.grid)
+        // Fire straight away when switched on; on a PRF change, keep the phase of the last pulse
+        if (s.transmit.auto && !old.auto) s.nextTransmitAt = s.time
+        else if (input.transmit.prf !== undefined) s.nextTransmitAt = Math.min(s.nextTransmitAt, s.time + 1 / s.transmit.prf)
+        break
+      }
+      case "stimulus": {
+        if (input.stimulus.enabled && !s.stimulus.enabled) s.stimulusStart = s.time
+        s.stimulus = input.stimulus
+        break
+      }
+    }
+  }
+
+  /**
+   * Rebuilds what depends on the transmit settings after they changed from
+   * `old`. Fronts already in flight keep their shape and what they lost so far.
+   */
+  private transmitChanged(old: TransmitConfig) {
+    const t = this.s.transmit
+    const beam = t.beam !== old.beam || t.steering !== old.steering || t.focusDepth !== old.focusDepth
+    if (beam) this.syncBeam()
+    // Absorption depends on frequency, and what the transmit lights up on its shape
+    if (beam || t.frequency !== old.frequency) this.buildReflectors()
+  }
+
+  private syncBeam() {
+    const layout = getProbeLayout(this.s.dims.h, this._config.probe)
+    const beam = getBeamShape(this.s.transmit, this._units)
+    this._transmitRays = transmitRays(layout, beam)
+    this._transmitDelays = elementDelays(layout, beam)
+  }
+
+  /** Fires a pulse with the current beam and starts a fresh receive record for it. */
+  private transmitPulse() {
+    const s = this.s
+    const { faceX, numElements } = this._config.probe
+    const id = s.nextPulseId++
+    s.pulses.push({
+      id, distance: 0, prevDistance: 0, x: faceX, prevX: faceX, firedAt: s.time,
+      delays: this._transmitDelays, rays: this._transmitRays,
+    })
+    // Long enough for the farthest corner and back, from the last element to fire
+    const { w, h } = s.dims
+    const length = Math.max(...this._transmitDelays) + 2 * Math.hypot(w - faceX, h)
+    const { samplingRate, noise } = this._config.receive
+    s.channels = createChannelData({
+      transmitId: id,
+      firedAt: s.time,
+      numElements,
+      length,
+      samplingRate,
+      spacing: this._units.wavelengthPx(samplingRate),
+      beam: getBeamShape(s.transmit, this._units),
+      wavelength: this._units.wavelengthPx(s.transmit.frequency),
+      noise,
+      // Different for every transmit, and the same on every replay of it
+      noiseSeed: (this._seed ^ Math.imul(id + 1, 0x85ebca6b)) >>> 0,
+    })
+  }
+
+  /**
+   * Creates, rebuilds or drops the wave solver grid so it matches the solver
+   * mode, canvas size and scene. A new grid starts silent.
+   */
+  private syncGrid() {
+    const s = this.s
+    const { w, h } = s.dims
+    if (s.solver !== "fdtd" || w <= 0 || h <= 0) {
+      this.grid = null
+      s.field = null
+      return
+    }
+    const { faceX } = this._config.probe
+    const grid = new AcousticGrid(faceX, 0, w, h, this._config.solver.cellSize)
+    this.fillGrid(grid)
+    this.grid = grid
+    s.field = grid.field
+  }
+
+  private fillGrid(grid: AcousticGrid) {
+    grid.clearOverrides()
+    fillMedium(grid, this._config, this.s.vessels, this._units, this.fieldFrequency().mhz)
+  }
+
+  /**
+   * Frequency the wave solver runs at: the transmit frequency, lowered where
+   * needed so a wavelength spans enough grid cells. In MHz and in cycles per
+   * sim second.
+   */
+  private fieldFrequency() {
+    const { frequency } = this.s.transmit
+    const wavelength = this._units.wavelengthPx(frequency)
+    const resolvable = Math.max(wavelength, MIN_CELLS_PER_WAVELENGTH * this._config.solver.cellSize)
+    return {
+      mhz: (frequency * wavelength) / resolvable,
+      perSecond: this._config.medium.waveSpeed / resolvable,
+    }
+  }
+
+  private buildReflectors() {
+    const { w, h } = this.s.dims
+    const layout = getProbeLayout(h, this._config.probe)
+    const wavelength = this._units.wavelengthPx(this.s.transmit.frequency)
+    this._reflectors = buildReflectors(
+      this._config, this._media, this.s.vessels, layout, w, h, this._transmitRays, wavelength, this.loss)
+  }
+
+  /** Where and how strongly an echo born at (`x`, `y`) reaches each element */
+  private echoArrivals(x: number, y: number, amplitude: number) {
+    const layout = getProbeLayout(this.s.dims.h, this._config.probe)
+    const ys = Array.from({ length: layout.numElements }, (_, i) => elementCenterY(layout, i))
+    const { radii, amplitudes } = faceArrivals(this._media, x, y, ys, this.loss)
+    return {
+      arrivals: radii,
+      arrivalGains: amplitudes.map((a, i) => a * amplitude * sphericalSpreading(radii[i])),
+    }
+  }
+
+  /** Re-applies inputs that were logged at the current step, when re-simulating the past. */
+  private replayInputs() {
+    for (const input of this.timeline.inputsAt(this.s.stepIndex)) this.applyInput(input)
+  }
+
+  /**
+   * Feeds `frameDt` seconds of wall-clock time, scaled by the playback time
+   * scale, into the fixed-timestep accumulator and runs as many `FIXED_DT`
+   * steps as fit. Returns the interpolation factor in [0, 1) between the
+   * previous and current step, for renderers to blend `prev*` and current
+   * values. While paused nothing advances and the factor is 1, so frame
+   * stepping always shows the exact current step.
+   */
+  advance(frameDt: number): number {
+    if (!this.initialized) return 0
+    if (this._playback.paused) return 1
+    this.accumulator += frameDt * this._playback.timeScale
+    let steps = 0
+    while (this.accumulator >= FIXED_DT && steps < MAX_SUBSTEPS) {
+      this.step(FIXED_DT)
+      this.accumulator -= FIXED_DT
+      steps++
+    }
+    // Drop time we could not catch up on (e.g. after a background tab)
+    if (steps === MAX_SUBSTEPS) this.accumulator = Math.min(this.accumulator, FIXED_DT)
+    return this.accumulator / FIXED_DT
+  }
+
+  /** Runs a single fixed step regardless of pause state. */
+  stepForward() {
+    this.step(FIXED_DT)
+  }
+
+  /** Goes back one fixed step. Returns false at the start of the recorded timeline. */
+  stepBack() {
+    if (this.s.stepIndex <= this.timeline.startStep) return false
+    this.seekStep(this.s.stepIndex - 1)
+    return true
+  }
+
+  /**
+   * Jumps to sim time `time`, clamped to the recorded timeline, by restoring
+   * the nearest earlier keyframe and re-simulating up to it.
+   */
+  seek(time: number) {
+    const keyframe = this.timeline.keyframeAtOrBefore(time)
+    if (!keyframe) return
+    this.restore(keyframe)
+    this.replayInputs()
+    const { liveStep } = this.timeline
+    while (this.s.stepIndex < liveStep && this.s.time + FIXED_DT / 2 <= time) this.step(FIXED_DT)
+  }
+
+  private seekStep(stepIndex: number) {
+    const keyframe = this.timeline.keyframeAtOrBeforeStep(stepIndex)
+    if (!keyframe) return
+    this.restore(keyframe)
+    this.replayInputs()
+    while (this.s.stepIndex < stepIndex) this.step(FIXED_DT)
+  }
+
+  /**
+   * Advances the model by exactly `dt` seconds. Prefer `advance` for
+   * real-time playback. The timeline assumes every step is `FIXED_DT`.
+   */
+  step(dt: number) {
+    if (!this.initialized) return
+    const s = this.s
+    const { medium } = this._config
+    const { w, h } = s.dims
+    s.time += dt
+
+    const layout = getProbeLayout(h, this._config.probe)
+    const { numElements } = layout
+    const skullRight = getSkullBounds(this._config).right
+    const travel = medium.waveSpeed * dt
+
+    // Automatic transmits follow from logged settings, so they are not inputs themselves
+    if (s.transmit.auto && s.time >= s.nextTransmitAt) {
+      this.applyInput({ type: "pulse" })
+      s.nextTransmitAt = Math.max(s.nextTransmitAt + 1 / s.transmit.prf, s.time)
+    }
+
+    s.tissueShift = pulsationShift(experimentSeconds(s.time), this._config.tissue, this._units)
+    const activity = vesselActivity(s.vessels, s.stimulus, experimentSeconds(s.time - s.stimulusStart))
+    for (const rbc of s.rbcs) {
+      rbc.prevT = rbc.t
+      rbc.prevRotation = rbc.rotation
+      rbc.t += activity[rbc.vesselIdx].flowSpeed * dt
+      if (rbc.t > 1) rbc.t -= 1
+      rbc.rotation += rbc.rotSpeed * dt
+    }
+
+    if (this.grid) this.stepField(this.grid, dt, layout)
+
+    const clumps = new Map<number, RBC[]>()
+    for (const rbc of s.rbcs) {
+      if (rbc.clumpId >= 0) clumps.set(rbc.clumpId, [...(clumps.get(rbc.clumpId) ?? []), rbc])
+    }
+
+    const wavelength = this._units.wavelengthPx(s.transmit.frequency)
+    for (let pi = s.pulses.length - 1; pi >= 0; pi--) {
+      const pulse = s.pulses[pi]
+      pulse.prevDistance = pulse.distance
+      pulse.distance += travel
+      pulse.prevX = pulse.x
+      // Each ray bends and weakens crossing the skull layers, and the front gains where rays converge
+      const front = transmitFront(this._media, pulse.rays, pulse.distance, wavelength, this.loss)
+      pulse.x = front.reduce((x, p) => (p ? Math.max(x, p.x) : x), pulse.x)
+      if (!this.grid) this.reflect(pulse.id, pulse.prevDistance, pulse.distance)
+      // In "fdtd" mode pulses only mark when each transmit left; the solver does the scattering
+      const entry = this.grid ? [] : brainRays(this._media, pulse.rays, this.loss)
+      for (const rbc of this.grid ? [] : s.rbcs) {
+        if (rbc.hitByPulses.has(pulse.id)) continue
+        const pos = getVesselPoint(s.vessels[rbc.vesselIdx], rbc.t)
+        if (pos.x < skullRight + rbc.size || pos.x > Math.min(w, pulse.x + rbc.size) || pos.y < 0 || pos.y > h) continue
+        const incident = incidentAt(this._media, entry, pos.x, pos.y, wavelength, this.loss)
+        if (incident && incident.distance <= pulse.distance + rbc.size &&
+            incident.distance >= pulse.distance - rbc.size - travel * 2) {
+          // An aggregate is far smaller than a wavelength, so its cells scatter in phase:
+          // amplitudes add, and one echo leaves from the middle of the clump
+          const members = rbc.clumpId >= 0 ? clumps.get(rbc.clumpId)! : [rbc]
+          let cx = 0, cy = 0, scatter = 0, size = 0
+          for (const m of members) {
+            const p = m === rbc ? pos : getVesselPoint(s.vessels[m.vesselIdx], m.t)
+            cx += p.x / members.length
+            cy += p.y / members.length
+            scatter += rayleighAmplitude(m.size, s.transmit.frequency)
+            size = Math.max(size, m.size)
+            m.hitByPulses.add(pulse.id)
+            m.hitTime = s.time
+          }
+          const amplitude = incident.amplitude * scatter
+          const radius = size + 1
+          const opacity = toDisplay(amplitude * sphericalSpreading(radius))
+          const arrivals = this.echoArrivals(cx, cy, amplitude)
+          if (s.echoes.length < medium.maxEchoes && opacity >= MIN_ECHO_OPACITY) {
+            s.echoes.push({ cx, cy, radius, prevRadius: radius, opacity, birthTime: s.time, amplitude, ...arrivals })
+          }
+          // Echoes too faint to draw still reach the elements
+          if (s.channels?.transmitId === pulse.id) {
+            for (let i = 0; i < numElements; i++) {
+              addEcho(s.channels, i, incident.distance + arrivals.arrivals[i], arrivals.arrivalGains[i], s.transmit.cycles)
+            }
+          }
+        }
+      }
+      // Gone once every ray has set off and left the area
+      const gone = pulse.distance > Math.max(...pulse.delays) &&
+        front.every(p => !p || p.x > w + 20 || p.y < -20 || p.y > h + 20)
+      if (gone) {
+        s.pulses.splice(pi, 1)
+        for (const rbc of s.rbcs) rbc.hitByPulses.delete(pulse.id)
+      }
+    }
+
+    for (let i = s.reflections.length - 1; i >= 0; i--) {
+      const r = s.reflections[i]
+      r.prevRadius = r.radius
+      r.radius += travel
+      // Kept one step past the end so the last arrivals still register below
+      if (r.prevRadius > this._reflectors[r.reflector].maxRadius) s.reflections.splice(i, 1)
+    }
+
+    const brainAttenuation = this._media[this._media.length - 1].attenuation
+    for (let i = s.echoes.length - 1; i >= 0; i--) {
+      const e = s.echoes[i]
+      e.prevRadius = e.radius
+      e.radius += travel
+      // Spreads over an ever larger sphere while the brain absorbs it
+      const absorbed = attenuationFactor(brainAttenuation, s.transmit.frequency, this._units.pxToMm(e.radius) / 10)
+      e.opacity = toDisplay(e.amplitude * sphericalSpreading(e.radius) * absorbed)
+      if (e.opacity < MIN_ECHO_OPACITY || e.radius > w * 1.5) {
+        s.echoes.splice(i, 1)
+      }
+    }
+
+    // Element detection
+    for (let i = 0; i < numElements; i++) {
+      s.elementActivations[i] = Math.max(0, s.elementActivations[i] - ELEMENT_DECAY_RATE * dt)
+    }
+    if (this.grid) this.receiveField(this.grid, layout, dt)
+
+    for (const r of s.reflections) {
+      const { arrivals, arrivalGains } = this._reflectors[r.reflector]
+      for (let i = 0; i < numElements; i++) {
+        if (arrivals[i] <= r.radius && arrivals[i] > r.prevRadius) {
+          const received = toDisplay(Math.abs(arrivalGains[i]) * r.amplitude) * REFLECTION_RECEIVE_GAIN
+          s.elementActivations[i] = Math.min(4, s.elementActivations[i] + received)
+        }
+      }
+    }
+
+    for (const echo of s.echoes) {
+      if (echo.opacity < 0.05) continue
+      for (let i = 0; i < numElements; i++) {
+        const arrival = echo.arrivals[i]
+        if (arrival <= echo.radius && arrival > echo.prevRadius) {
+          const received = toDisplay(echo.arrivalGains[i]) * ECHO_RECEIVE_GAIN
+          s.elementActivations[i] = Math.min(4, s.elementActivations[i] + received)
+        }
+      }
+    }
+
+    s.stepIndex++
+    this.timeline.record(s, () => this.snapshot())
+    this.replayInputs()
+  }
+
+  /**
+   * Starts a reflection off every reflector transmit `pulseId` reached while
+   * travelling from `from` to `to` tissue px, and records what it brings back.
+   */
+  private reflect(pulseId: number, from: number, to: number) {
+    const s = this.s
+    this._reflectors.forEach((r, reflector) => {
+      if (r.rays.length === 0 || r.onset <= from || r.onset > to) return
+      // Losses on the way in are part of the reflector's gains
+      const radius = to - r.onset
+      s.reflections.push({ reflector, radius, prevRadius: radius, amplitude: 1, birthTime: s.time })
+      if (s.channels?.transmitId !== pulseId) return
+      for (let i = 0; i < r.arrivals.length; i++) {
+        addEcho(s.channels, i, r.onset + r.arrivals[i], r.arrivalGains[i], s.transmit.cycles)
+      }
+    })
+  }
+
+  /**
+   * Advances the wave solver by `dt` in as many sub-steps as stability needs,
+   * with red cells as moving high-density scatterers and every pulse fired in
+   * the last `sourceDuration` driving the probe face, each element after its
+   * own delay.
+   */
+  private stepField(grid: AcousticGrid, dt: number, layout: ProbeLayout) {
+    const s = this.s
+    const { waveSpeed } = this._config.medium
+    const frequency = this.fieldFrequency()
+    const skullRight = getSkullBounds(this._config).right
+    const bloodSpeed = this._units.speedToSim(getTissueProperties(this._config).blood.soundSpeed)
+
+    grid.clearOverrides()
+    for (const rbc of s.rbcs) {
+      const pos = getVesselPoint(s.vessels[rbc.vesselIdx], rbc.t)
+      if (pos.x < skullRight) continue
+      grid.override(pos.x, pos.y, bloodSpeed, RBC_DENSITY / 1000, 0)
+      if (Math.abs(grid.sample(pos.x, pos.y)) > HIT_PRESSURE) rbc.hitTime = s.time
+    }
+
+    const n = Math.ceil(dt / grid.maxStableDt())
+    const sub = dt / n
+    const sourceX = layout.faceX + grid.dx / 2
+    const drive = new Array<number>(layout.numElements)
+    for (let k = 0; k < n; k++) {
+      const t = s.time - dt + k * sub
+      drive.fill(0)
+      for (const pulse of s.pulses) {
+        for (let i = 0; i < drive.length; i++) {
+          drive[i] += sourceSignal(t - pulse.firedAt - pulse.delays[i] / waveSpeed, frequency.perSecond, s.transmit.cycles)
+        }
+      }
+      // One grid row at a time, each driven by the element in front of it
+      for (let y = layout.probeTop + grid.dx / 2; y < layout.probeBot; y += grid.dx) {
+        const i = Math.min(drive.length - 1, Math.floor(((y - layout.probeTop) / layout.probeH) * drive.length))
+        if (drive[i] !== 0) grid.inject(sourceX, y, y, (drive[i] * waveSpeed * sub) / grid.dx)
+      }
+      grid.step(sub)
+    }
+  }
+
+  /**
+   * Elements pick up the pressure at the face, except while they are
+   * transmitting, into their glow and the latest receive record.
+   */
+  private receiveField(grid: AcousticGrid, layout: ProbeLayout, dt: number) {
+    const s = this.s
+    const busy = sourceDuration(this.fieldFrequency().perSecond, s.transmit.cycles)
+    const { waveSpeed } = this._config.medium
+    if (s.pulses.some(p => s.time - p.firedAt < busy + Math.max(...p.delays) / waveSpeed)) return
+    const x = layout.faceX + grid.dx / 2
+    const ch = s.channels
+    const to = ch ? (s.time - ch.firedAt) * waveSpeed : 0
+    for (let i = 0; i < layout.numElements; i++) {
+      const p = grid.sample(x, elementCenterY(layout, i))
+      const received = Math.abs(p) * RECEIVE_GAIN
+      s.elementActivations[i] = Math.min(4, Math.max(s.elementActivations[i], received))
+      if (ch) recordSpan(ch, i, to - waveSpeed * dt, to, p)
+    }
+  }
+
+  /** True while any pulse, echo or reflection is still in flight. */
+  isActive() {
+    return this.s.pulses.length > 0 || this.s.echoes.length > 0 || this.s.reflections.length > 0
+  }
+
+  /**
+   * Copy of the current state, safe to keep and compare. Vessel and tissue
+   * geometry is shared rather than copied: the engine replaces it wholesale
+   * and never mutates it in place.
+   */
+  snapshot(): SimulationState {
+    const s = this.s
+    return {
+      vesselPaths: s.vesselPaths,
+      vessels: s.vessels,
+      tissueScatterers: s.tissueScatterers,
+      tissue: s.tissue,
+      tissueShift: s.tissueShift,
+      rbcs: s.rbcs.map(r => ({ ...r, hitByPulses: new Set(r.hitByPulses) })),
+      echoes: s.echoes.map(e => ({ ...e })),
+      reflections: s.reflections.map(r => ({ ...r })),
+      pulses: s.pulses.map(p => ({ ...p })),
+      nextPulseId: s.nextPulseId,
+      time: s.time,
+      stepIndex: s.stepIndex,
+      transmit: { ...s.transmit },
+      nextTransmitAt: s.nextTransmitAt,
+      dims: { ...s.dims },
+      elementActivations: [...s.elementActivations],
+      solver: s.solver,
+      stimulus: s.stimulus,
+      stimulusStart: s.stimulusStart,
+      field: s.field && copyField(s.field),
+      channels: s.channels && copyChannelData(s.channels),
+    }
+  }
+
+  /**
+   * Puts the engine back into a state from `snapshot()`. A snapshot taken at
+   * another canvas size is re-projected onto the current one.
+   */
+  restore(snapshot: SimulationState) {
+    const { w, h } = this.s.dims
+    const transmit = this.s.transmit
+    // Copy again so the caller's snapshot survives further stepping
+    Object.assign(this.s, {
+      ...snapshot,
+      rbcs: snapshot.rbcs.map(r => ({ ...r, hitByPulses: new Set(r.hitByPulses) })),
+      echoes: snapshot.echoes.map(e => ({ ...e })),
+      reflections: snapshot.reflections.map(r => ({ ...r })),
+      pulses: snapshot.pulses.map(p => ({ ...p })),
+      transmit: { ...snapshot.transmit },
+      dims: { ...snapshot.dims },
+      elementActivations: [...snapshot.elementActivations],
+      field: null,
+      channels: snapshot.channels && copyChannelData(snapshot.channels),
+    })
+    this.accumulator = 0
+    this.transmitChanged(transmit)
+    this.syncGrid()
+    const field = snapshot.field
+    if (this.grid && field && field.nx === this.grid.nx && field.ny === this.grid.ny) {
+      this.grid.field.p.set(field.p)
+      this.grid.field.vx.set(field.vx)
+      this.grid.field.vy.set(field.vy)
+    }
+    if (snapshot.dims.w !== w || snapshot.dims.h !== h) this.resize(w, h)
+  }
+}
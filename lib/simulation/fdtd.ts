@@ -0,0 +1,187 @@
+import type { MediumTarget } from "./media"
+import { pulseExtent, pulseProfile } from "./pulse"
+import type { PressureField } from "./types"
+
+// Staggered-grid (Yee) finite differences for 2D linear acoustics:
+//   ∂v/∂t = -(1/ρ) ∇p        ∂p/∂t = -ρc² ∇·v
+// Pressure lives at cell centres, vx on the face to the right of each cell and
+// vy on the face below it. Everything is in sim units (px, sim seconds).
+
+/** Cells of absorbing sponge around the visible area */
+export const SPONGE_CELLS = 16
+/**
+ * Shortest wavelength the grid resolves without heavy numerical dispersion;
+ * higher transmit frequencies are run at the frequency that gives this.
+ */
+export const MIN_CELLS_PER_WAVELENGTH = 6
+const SPONGE_STRENGTH = 0.12
+
+/**
+ * Transmit waveform at `frequency` (cycles per sim second), `tau` seconds
+ * after firing: the pulse profile passing the face. Zero outside
+ * `[0, sourceDuration(frequency, cycles)]`.
+ */
+export function sourceSignal(tau: number, frequency: number, cycles: number) {
+  return pulseProfile(tau * frequency, 1, cycles)
+}
+
+export function sourceDuration(frequency: number, cycles: number) {
+  return pulseExtent(1, cycles) / frequency
+}
+
+interface Override {
+  idx: number
+  c: number
+  rho: number
+  absorption: number
+}
+
+export class AcousticGrid implements MediumTarget {
+  readonly field: PressureField
+  private c: Float32Array
+  private rho: Float32Array
+  /** Fraction of the field absorbed per sim second */
+  private absorption: Float32Array
+  /** ρc² at cell centres */
+  private bulk: Float32Array
+  /** 1/ρ on the right and bottom faces */
+  private buoyX: Float32Array
+  private buoyY: Float32Array
+  private damp: Float32Array
+  private overrides: Override[] = []
+  private maxSpeed = 0
+
+  /** Covers `[left, right] x [top, bottom]` plus a sponge border outside it. */
+  constructor(left: number, top: number, right: number, bottom: number, readonly dx: number) {
+    const nx = Math.ceil((right - left) / dx) + 2 * SPONGE_CELLS
+    const ny = Math.ceil((bottom - top) / dx) + 2 * SPONGE_CELLS
+    const n = nx * ny
+    this.field = {
+      nx, ny, dx,
+      x0: left - SPONGE_CELLS * dx,
+      y0: top - SPONGE_CELLS * dx,
+      p: new Float32Array(n),
+      vx: new Float32Array(n),
+      vy: new Float32Array(n),
+    }
+    this.c = new Float32Array(n)
+    this.rho = new Float32Array(n).fill(1)
+    this.absorption = new Float32Array(n)
+    this.bulk = new Float32Array(n)
+    this.buoyX = new Float32Array(n).fill(1)
+    this.buoyY = new Float32Array(n).fill(1)
+    this.damp = new Float32Array(n)
+    for (let j = 0; j < ny; j++) {
+      for (let i = 0; i < nx; i++) {
+        const depth = Math.max(0, SPONGE_CELLS - Math.min(i, j, nx - 1 - i, ny - 1 - j)) / SPONGE_CELLS
+        this.damp[j * nx + i] = 1 - SPONGE_STRENGTH * depth * depth
+      }
+    }
+  }
+
+  get nx() { return this.field.nx }
+  get ny() { return this.field.ny }
+  get x0() { return this.field.x0 }
+  get y0() { return this.field.y0 }
+
+  setCell(i: number, j: number, c: number, rho: number, absorption: number) {
+    const { nx } = this.field
+    const idx = j * nx + i
+    this.c[idx] = c
+    this.rho[idx] = rho
+    this.bulk[idx] = rho * c * c
+    // Nepers per px times px per second
+    this.absorption[idx] = absorption * c
+    if (c > this.maxSpeed) this.maxSpeed = c
+    // Face buoyancy is the inverse of the mean density on either side
+    if (i > 0) this.buoyX[idx - 1] = 2 / (this.rho[idx - 1] + rho)
+    if (i < nx - 1) this.buoyX[idx] = 2 / (rho + this.rho[idx + 1])
+    if (j > 0) this.buoyY[idx - nx] = 2 / (this.rho[idx - nx] + rho)
+    if (j < this.field.ny - 1) this.buoyY[idx] = 2 / (rho + this.rho[idx + nx])
+  }
+
+  /** Temporarily changes the cell under (x, y); undone by `clearOverrides`. */
+  override(x: number, y: number, c: number, rho: number, absorption: number) {
+    const cell = this.cellAt(x, y)
+    if (!cell) return
+    const [i, j] = cell
+    const idx = j * this.field.nx + i
+    const c0 = this.c[idx]
+    this.overrides.push({ idx, c: c0, rho: this.rho[idx], absorption: c0 > 0 ? this.absorption[idx] / c0 : 0 })
+    this.setCell(i, j, c, rho, absorption)
+  }
+
+  clearOverrides() {
+    const { nx } = this.field
+    // Undo in reverse so overlapping overrides restore the original medium
+    for (let k = this.overrides.length - 1; k >= 0; k--) {
+      const o = this.overrides[k]
+      this.setCell(o.idx % nx, Math.floor(o.idx / nx), o.c, o.rho, o.absorption)
+    }
+    this.overrides = []
+  }
+
+  cellAt(x: number, y: number): [number, number] | null {
+    const { x0, y0, dx, nx, ny } = this.field
+    const i = Math.floor((x - x0) / dx), j = Math.floor((y - y0) / dx)
+    return i >= 0 && i < nx && j >= 0 && j < ny ? [i, j] : null
+  }
+
+  /** Pressure at the cell under (x, y), 0 outside the grid */
+  sample(x: number, y: number) {
+    const cell = this.cellAt(x, y)
+    return cell ? this.field.p[cell[1] * this.field.nx + cell[0]] : 0
+  }
+
+  /** Adds `amount` to the pressure along the column under `x` between `top` and `bottom` (a soft source). */
+  inject(x: number, top: number, bottom: number, amount: number) {
+    const a = this.cellAt(x, top), b = this.cellAt(x, bottom)
+    if (!a || !b) return
+    const { p, nx } = this.field
+    for (let j = a[1]; j <= b[1]; j++) p[j * nx + a[0]] += amount
+  }
+
+  /** Largest time step the scheme is stable for (CFL limit with a safety margin) */
+  maxStableDt() {
+    return this.maxSpeed > 0 ? (0.9 * this.dx) / (this.maxSpeed * Math.SQRT2) : Infinity
+  }
+
+  clear() {
+    this.field.p.fill(0)
+    this.field.vx.fill(0)
+    this.field.vy.fill(0)
+  }
+
+  step(dt: number) {
+    const { nx, ny, p, vx, vy } = this.field
+    const k = dt / this.dx
+    const { bulk, buoyX, buoyY, damp, absorption } = this
+
+    for (let j = 0; j < ny; j++) {
+      const row = j * nx
+      for (let i = 0; i < nx - 1; i++) {
+        const idx = row + i
+        vx[idx] -= k * buoyX[idx] * (p[idx + 1] - p[idx])
+      }
+    }
+    for (let j = 0; j < ny - 1; j++) {
+      const row = j * nx
+      for (let i = 0; i < nx; i++) {
+        const idx = row + i
+        vy[idx] -= k * buoyY[idx] * (p[idx + nx] - p[idx])
+      }
+    }
+    // Outer faces stay rigid (v = 0); the sponge keeps waves from reaching them
+    for (let j = 0; j < ny; j++) {
+      const row = j * nx
+      for (let i = 0; i < nx; i++) {
+        const idx = row + i
+        const div = vx[idx] - (i > 0 ? vx[idx - 1] : 0) + vy[idx] - (j > 0 ? vy[idx - nx] : 0)
+        const d = damp[idx] * (1 - absorption[idx] * dt)
+        p[idx] = (p[idx] - k * bulk[idx] * div) * d
+        vx[idx] *= d
+        vy[idx] *= d
+      }
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import type { PressureField } from "./types"
+
+/** Display gain before compression; a transmitted pulse is about 0.5 */
+const FIELD_GAIN = 4
+const MAX_ALPHA = 0.85
+
+export type Rgb = [number, number, number]
+
+/** Resolves any CSS color to RGB through the canvas' own parser. */
+export function toRgb(ctx: CanvasRenderingContext2D, color: string): Rgb {
+  ctx.save()
+  ctx.fillStyle = color
+  const parsed = ctx.fillStyle
+  ctx.restore()
+  if (parsed.startsWith("#")) {
+    const n = parseInt(parsed.slice(1, 7), 16)
+    return [(n >> 16) & 255, (n >> 8) & 255, n & 255]
+  }
+  const [r, g, b] = parsed.match(/[\d.]+/g)?.map(Number) ?? [0, 0, 0]
+  return [r, g, b]
+}
+
+/**
+ * Draws a `PressureField` as a translucent overlay: compression in
+ * `positive`, rarefaction in `negative`, opacity rising with the square root
+ * of |p| so faint scattered waves stay visible next to the transmit pulse.
+ * Keeps one grid-sized offscreen canvas and scales it up with smoothing.
+ */
+export function createFieldRenderer() {
+  let canvas: HTMLCanvasElement | null = null
+  let image: ImageData | null = null
+  let palette: { key: string; pos: Rgb; neg: Rgb } | null = null
+
+  return function drawPressureField(
+    ctx: CanvasRenderingContext2D,
+    field: PressureField,
+    positive: string,
+    negative: string,
+    clipLeft: number,
+  ) {
+    const { nx, ny, dx, x0, y0, p } = field
+    canvas ??= document.createElement("canvas")
+    if (!image || image.width !== nx || image.height !== ny) {
+      canvas.width = nx
+      canvas.height = ny
+      image = new ImageData(nx, ny)
+    }
+    const key = positive + negative
+    if (palette?.key !== key) palette = { key, pos: toRgb(ctx, positive), neg: toRgb(ctx, negative) }
+    const { pos, neg } = palette
+
+    const data = image.data
+    for (let idx = 0, o = 0; idx < p.length; idx++, o += 4) {
+      const v = p[idx]
+      const [r, g, b] = v >= 0 ? pos : neg
+      data[o] = r
+      data[o + 1] = g
+      data[o + 2] = b
+      data[o + 3] = Math.min(MAX_ALPHA, Math.sqrt(Math.abs(v) * FIELD_GAIN)) * 255
+    }
+    canvas.getContext("2d")!.putImageData(image, 0, 0)
+
+    ctx.save()
+    ctx.beginPath()
+    ctx.rect(clipLeft, y0, x0 + nx * dx - clipLeft, ny * dx)
+    ctx.clip()
+    ctx.imageSmoothingEnabled = true
+    ctx.drawImage(canvas, x0, y0, nx * dx, ny * dx)
+    ctx.restore()
+  }
+}
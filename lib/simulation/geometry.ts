@@ -0,0 +1,116 @@
+import type { ProbeConfig, SimulationConfig } from "./config"
+import { DIPLOE_FRAC, GEL_THICKNESS, OUTER_TABLE_FRAC } from "./constants"
+import type { Vessel } from "./types"
+
+export function lerp(a: number, b: number, t: number) {
+  return a + (b - a) * t
+}
+
+/** Interpolates a path parameter in [0, 1) that may have wrapped between `a` and `b`. */
+export function lerpWrapped(a: number, b: number, t: number) {
+  const d = b < a - 0.5 ? b + 1 - a : b - a
+  const v = a + d * t
+  return v > 1 ? v - 1 : v
+}
+
+export function ptSegDistSq(
+  px: number, py: number,
+  ax: number, ay: number,
+  bx: number, by: number
+): number {
+  const dx = bx - ax, dy = by - ay
+  const lenSq = dx * dx + dy * dy
+  if (lenSq === 0) return (px - ax) ** 2 + (py - ay) ** 2
+  const t = Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lenSq))
+  const projX = ax + t * dx, projY = ay + t * dy
+  return (px - projX) ** 2 + (py - projY) ** 2
+}
+
+export function getVesselPoint(
+  vessel: Vessel,
+  t: number
+): { x: number; y: number; angle: number } {
+  const pts = vessel.points
+  const total = pts.length - 1
+  const idx = Math.min(Math.floor(t * total), total - 1)
+  const frac = t * total - idx
+  const p0 = pts[idx]
+  const p1 = pts[Math.min(idx + 1, pts.length - 1)]
+  return {
+    x: lerp(p0.x, p1.x, frac),
+    y: lerp(p0.y, p1.y, frac),
+    angle: Math.atan2(p1.y - p0.y, p1.x - p0.x),
+  }
+}
+
+export interface ProbeLayout {
+  faceX: number
+  numElements: number
+  probeTop: number
+  probeBot: number
+  probeH: number
+  elementH: number
+  elementGap: number
+}
+
+/** Extent of the transducer aperture and its elements for a sim height. */
+export function getProbeLayout(h: number, probe: ProbeConfig): ProbeLayout {
+  const probeTop = h * probe.topFrac
+  const probeBot = h * probe.botFrac
+  const probeH = probeBot - probeTop
+  const totalGaps = (probe.numElements - 1) * probe.elementGap
+  return {
+    faceX: probe.faceX,
+    numElements: probe.numElements,
+    probeTop,
+    probeBot,
+    probeH,
+    elementH: Math.max(0.5, (probeH - totalGaps) / probe.numElements),
+    elementGap: probe.elementGap,
+  }
+}
+
+export function elementCenterY(layout: ProbeLayout, i: number) {
+  return layout.probeTop + i * (layout.elementGap + layout.elementH) + layout.elementH / 2
+}
+
+/** Horizontal extent of the skull. `left === right` when the skull is disabled. */
+export function getSkullBounds(config: SimulationConfig) {
+  const left = config.probe.faceX + GEL_THICKNESS
+  const thickness = config.medium.skullThickness
+  return { left, right: left + thickness, thickness }
+}
+
+export interface Span {
+  left: number
+  right: number
+}
+
+/** Outer table, diploë and inner table of the skull, left to right. */
+export function getSkullLayers(config: SimulationConfig): { outer: Span; diploe: Span; inner: Span } {
+  const { left, right, thickness } = getSkullBounds(config)
+  const diploeLeft = left + thickness * OUTER_TABLE_FRAC
+  const innerLeft = diploeLeft + thickness * DIPLOE_FRAC
+  return {
+    outer: { left, right: diploeLeft },
+    diploe: { left: diploeLeft, right: innerLeft },
+    inner: { left: innerLeft, right },
+  }
+}
+
+/** Point of a vessel's centreline closest to (`x`, `y`), with the unit direction of flow there. */
+export function nearestOnVessel(vessel: Vessel, x: number, y: number) {
+  const pts = vessel.points
+  let best = { x: pts[0].x, y: pts[0].y, ux: 1, uy: 0, distance: Infinity }
+  for (let j = 0; j < pts.length - 1; j++) {
+    const a = pts[j], b = pts[j + 1]
+    const dx = b.x - a.x, dy = b.y - a.y
+    const len = Math.hypot(dx, dy)
+    if (len === 0) continue
+    const t = Math.max(0, Math.min(1, ((x - a.x) * dx + (y - a.y) * dy) / (len * len)))
+    const px = a.x + t * dx, py = a.y + t * dy
+    const distance = Math.hypot(x - px, y - py)
+    if (distance < best.distance) best = { x: px, y: py, ux: dx / len, uy: dy / len, distance }
+  }
+  return best
+}
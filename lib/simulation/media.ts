@@ -0,0 +1,166 @@
+import type { SimulationConfig } from "./config"
+import { getSkullBounds, getSkullLayers, ptSegDistSq } from "./geometry"
+import type { Units } from "./units"
+import type { Vessel } from "./types"
+
+export type Tissue = "gel" | "cortical" | "diploe" | "brain" | "blood"
+
+export interface AcousticProperties {
+  /** Speed of sound, m/s */
+  soundSpeed: number
+  /** Density, kg/m³ */
+  density: number
+  /** Absorption, dB/cm/MHz; losses grow linearly with frequency */
+  attenuation: number
+}
+
+/** Textbook values; bone and soft-tissue speeds come from the config. */
+export function getTissueProperties(config: SimulationConfig): Record<Tissue, AcousticProperties> {
+  const { tissueSoundSpeed, boneSoundSpeed, diploeSoundSpeed } = config.medium
+  return {
+    gel: { soundSpeed: 1500, density: 1000, attenuation: 0.05 },
+    cortical: { soundSpeed: boneSoundSpeed, density: 1900, attenuation: 12 },
+    // Spongy bone scatters as well as absorbs
+    diploe: { soundSpeed: diploeSoundSpeed, density: 1500, attenuation: 20 },
+    brain: { soundSpeed: tissueSoundSpeed, density: 1040, attenuation: 0.6 },
+    blood: { soundSpeed: 1570, density: 1060, attenuation: 0.15 },
+  }
+}
+
+/** Characteristic acoustic impedance Z = ρc, in MRayl. */
+export function impedance(props: AcousticProperties) {
+  return (props.density * props.soundSpeed) / 1e6
+}
+
+/** Share of the pressure amplitude reflected going from impedance `z1` into `z2`; negative flips the phase. */
+export function reflection(z1: number, z2: number) {
+  return (z2 - z1) / (z2 + z1)
+}
+
+/**
+ * Amplitude carried on across the interface, from the transmitted share of
+ * the energy (1 - R²), so a wave can only lose strength crossing it.
+ */
+export function transmission(z1: number, z2: number) {
+  const r = reflection(z1, z2)
+  return Math.sqrt(1 - r * r)
+}
+
+/**
+ * Amplitude left after `cm` through a medium absorbing `attenuation`
+ * dB/cm/MHz, at `frequency` MHz.
+ */
+export function attenuationFactor(attenuation: number, frequency: number, cm: number) {
+  return Math.pow(10, (-attenuation * frequency * cm) / 20)
+}
+
+/** A vertical band of uniform tissue between the probe face and the brain. */
+export interface MediaColumn {
+  left: number
+  right: number
+  tissue: Tissue
+  /** Speed of sound relative to soft tissue (`medium.waveSpeed`) */
+  speed: number
+  /** MRayl */
+  impedance: number
+  /** dB/cm/MHz */
+  attenuation: number
+}
+
+/**
+ * The layered media a wave crosses between the probe face and the brain:
+ * gel, outer table, diploë, inner table and finally brain, which extends to
+ * infinity. Layers of zero width (no skull) are left out.
+ */
+export function getMediaColumns(config: SimulationConfig): MediaColumn[] {
+  const props = getTissueProperties(config)
+  const skull = getSkullBounds(config)
+  const { outer, diploe, inner } = getSkullLayers(config)
+  const column = (left: number, right: number, tissue: Tissue): MediaColumn => ({
+    left,
+    right,
+    tissue,
+    speed: props[tissue].soundSpeed / config.medium.tissueSoundSpeed,
+    impedance: impedance(props[tissue]),
+    attenuation: props[tissue].attenuation,
+  })
+  return [
+    column(config.probe.faceX, skull.left, "gel"),
+    column(outer.left, outer.right, "cortical"),
+    column(diploe.left, diploe.right, "diploe"),
+    column(inner.left, inner.right, "cortical"),
+    column(skull.right, Infinity, "brain"),
+  ].filter(c => c.right > c.left)
+}
+
+/** Index of the column containing `x`; anything left of the face counts as the first column. */
+export function columnAt(columns: readonly MediaColumn[], x: number) {
+  for (let k = columns.length - 1; k > 0; k--) if (x >= columns[k].left) return k
+  return 0
+}
+
+/**
+ * Real red cells barely differ from plasma acoustically; exaggerate the
+ * density so single cells scatter visibly on a grid much coarser than they are.
+ */
+export const RBC_DENSITY = 1060 * 2.5
+
+/** Something with per-cell acoustic properties, in sim units. */
+export interface MediumTarget {
+  nx: number
+  ny: number
+  dx: number
+  x0: number
+  y0: number
+  /** `c` in sim px/s, `rho` relative to water, `absorption` in nepers per sim px */
+  setCell(i: number, j: number, c: number, rho: number, absorption: number): void
+}
+
+/**
+ * Fills `target` with gel, skull layers, brain and vessel properties for the
+ * current scene, with absorption for waves of `frequency` MHz.
+ */
+export function fillMedium(
+  target: MediumTarget,
+  config: SimulationConfig,
+  vessels: Vessel[],
+  units: Units,
+  frequency: number,
+) {
+  const props = getTissueProperties(config)
+  const columns = getMediaColumns(config)
+  const skull = getSkullBounds(config)
+  // dB to nepers is a factor ln(10) / 20
+  const cmPerPx = units.mmPerPx / 10
+  const sim = (t: Tissue) => [
+    units.speedToSim(props[t].soundSpeed),
+    props[t].density / 1000,
+    (props[t].attenuation * frequency * cmPerPx * Math.LN10) / 20,
+  ] as const
+  const blood = sim("blood")
+  const { nx, ny, dx, x0, y0 } = target
+
+  for (let i = 0; i < nx; i++) {
+    const [c, rho, absorption] = sim(columns[columnAt(columns, x0 + (i + 0.5) * dx)].tissue)
+    for (let j = 0; j < ny; j++) target.setCell(i, j, c, rho, absorption)
+  }
+
+  // Rasterize each vessel segment over its bounding box only
+  for (const v of vessels) {
+    const rSq = v.radius * v.radius
+    for (let k = 0; k < v.points.length - 1; k++) {
+      const a = v.points[k], b = v.points[k + 1]
+      const iMin = Math.max(0, Math.floor((Math.min(a.x, b.x) - v.radius - x0) / dx))
+      const iMax = Math.min(nx - 1, Math.ceil((Math.max(a.x, b.x) + v.radius - x0) / dx))
+      const jMin = Math.max(0, Math.floor((Math.min(a.y, b.y) - v.radius - y0) / dx))
+      const jMax = Math.min(ny - 1, Math.ceil((Math.max(a.y, b.y) + v.radius - y0) / dx))
+      for (let j = jMin; j <= jMax; j++) {
+        for (let i = iMin; i <= iMax; i++) {
+          const x = x0 + (i + 0.5) * dx, y = y0 + (j + 0.5) * dx
+          if (x < skull.right) continue
+          if (ptSegDistSq(x, y, a.x, a.y, b.x, b.y) <= rSq) target.setCell(i, j, ...blood)
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import type { Units } from "./units"
+import { formatDuration } from "./units"
+
+export const NICE_STEPS_MM = [0.5, 1, 2, 5, 10, 20, 50, 100]
+
+/**
+ * Depth ruler along the top of the sim area, measured from the probe face.
+ * Picks a major tick spacing that keeps labels at least ~70 px apart.
+ */
+export function drawDepthScale(
+  ctx: CanvasRenderingContext2D,
+  units: Units,
+  faceX: number,
+  w: number,
+  showLabels: boolean,
+) {
+  const majorMm = NICE_STEPS_MM.find(mm => units.mmToPx(mm) >= 70) ?? NICE_STEPS_MM[NICE_STEPS_MM.length - 1]
+  const minorMm = majorMm / 5
+  const y = 8
+  const depthMm = units.pxToMm(w - faceX)
+
+  ctx.save()
+  ctx.strokeStyle = "rgba(148,163,184,0.45)"
+  ctx.fillStyle = "rgba(148,163,184,0.75)"
+  ctx.lineWidth = 1
+  ctx.font = "500 10px system-ui, sans-serif"
+  ctx.textAlign = "center"; ctx.textBaseline = "top"
+
+  ctx.beginPath(); ctx.moveTo(faceX, y); ctx.lineTo(w, y); ctx.stroke()
+  for (let i = 0; i * minorMm <= depthMm; i++) {
+    const x = faceX + units.mmToPx(i * minorMm)
+    const major = i % 5 === 0
+    ctx.beginPath(); ctx.moveTo(x, y); ctx.lineTo(x, y + (major ? 7 : 3)); ctx.stroke()
+    if (major && i > 0 && showLabels) ctx.fillText(`${+(i * minorMm).toFixed(1)} mm`, x, y + 9)
+  }
+  ctx.restore()
+}
+
+/**
+ * Physical time since the simulation started and, while a pulse is in flight,
+ * the time since it left the probe and the depth it has reached.
+ * Drawn in screen space at (x, y).
+ */
+export function drawTimeReadout(
+  ctx: CanvasRenderingContext2D,
+  units: Units,
+  time: number,
+  pulseDepthPx: number | null,
+  waveSpeed: number,
+  x: number,
+  y: number,
+) {
+  const lines = [`t = ${formatDuration(units.simToUs(time))}`]
+  if (pulseDepthPx !== null) {
+    const since = units.simToUs(pulseDepthPx / waveSpeed)
+    lines.push(`pulse: ${formatDuration(since)} · ${units.pxToMm(pulseDepthPx).toFixed(1)} mm`)
+  }
+
+  ctx.save()
+  ctx.font = "500 11px ui-monospace, monospace"
+  ctx.textAlign = "left"; ctx.textBaseline = "top"
+  const boxW = Math.max(...lines.map(l => ctx.measureText(l).width)) + 14
+  ctx.fillStyle = "rgba(10,8,10,0.75)"
+  ctx.beginPath(); ctx.roundRect(x, y, boxW, lines.length * 15 + 8, 3); ctx.fill()
+  ctx.fillStyle = "rgba(203,213,225,0.9)"
+  lines.forEach((line, i) => ctx.fillText(line, x + 7, y + 5 + i * 15))
+  ctx.restore()
+}
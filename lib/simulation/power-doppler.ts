@@ -0,0 +1,473 @@
+import type { BModeImage } from "./bmode"
+import type { PowerDopplerConfig } from "./config"
+import {
+  BLOOD_VELOCITY_SCALE,
+  DOPPLER_NOISE,
+  HEMATOCRIT,
+  POWER_DOPPLER_CELL,
+  POWER_DOPPLER_CHUNK,
+  POWER_DOPPLER_ENSEMBLE,
+  POWER_DOPPLER_INTERVAL,
+  POWER_DOPPLER_SCATTERERS,
+  TIME_COURSE_HISTORY,
+  TISSUE_BACKSCATTER,
+} from "./constants"
+import { findFlowCells, type FlowCell } from "./doppler"
+import type { ProbeLayout } from "./geometry"
+import { createRng, gaussianAt, type Rng } from "./random"
+import { pulsationShift, pulsationSway, type BrainFrame } from "./scene"
+import { experimentSeconds, type VesselActivity } from "./stimulus"
+import {
+  accumulateCorrelation,
+  correlationModes,
+  correlationSize,
+  filteredPower,
+  type SlowTimeModes,
+} from "./svd"
+import type { TissueScatterer, Vessel } from "./types"
+import type { Units } from "./units"
+
+/**
+ * A power Doppler image laid out like a B-mode image, its `values` the blood
+ * signal power log-compressed against the strongest pixel, averaged over every
+ * ensemble since acquisition (re)started.
+ */
+export interface PowerDopplerImage extends BModeImage {
+  /** Compounded frames averaged so far */
+  frames: number
+  /** Physical seconds those frames took to acquire */
+  duration: number
+  /** Energy of each slow-time mode of the newest ensemble, largest first; empty before the first */
+  energy: Float64Array
+  /** Number of the newest ensemble, and its blood power per pixel, overwritten by the next */
+  ensemble: number
+  power: Float64Array
+}
+
+export interface PowerDopplerSettings {
+  /** Plane-wave transmit rate, kHz */
+  prf: number
+  /** Tilted plane waves compounded into each frame */
+  angles: number
+  /** Transmit centre frequency, MHz */
+  frequency: number
+  /** dB shown below the strongest pixel */
+  dynamicRange: number
+  /** Slow-time modes from `clutterCutoff` up to (not including) `noiseCutoff` are kept as blood */
+  clutterCutoff: number
+  noiseCutoff: number
+  /** Peak tissue displacement at the far side of the brain, µm */
+  pulsation: number
+  /** Beats per minute */
+  heartRate: number
+}
+
+/** Complex unit Gaussians drawn once; each pixel reads its noise from a random place in them */
+const NOISE_TABLE = 1 << 16
+
+/** Per-pixel state of a power Doppler region, kept while the region and scene stay the same */
+interface Grid {
+  key: string
+  nx: number
+  ny: number
+  pixels: number
+  cells: FlowCell[]
+  /** Share of the full pulsation each pixel moves by, growing with depth past the skull */
+  sway: Float32Array
+  /** Echo of the tissue scatterers around each pixel at rest, for the carrier it was worked out at */
+  tissueRe: Float32Array
+  tissueIm: Float32Array
+  tissueWavelength: number
+  /** Slow-time signals of the current ensemble, pixel-major */
+  re: Float32Array
+  im: Float32Array
+  /** Blood power per pixel after the clutter filter */
+  power: Float64Array
+}
+
+function createGrid(
+  key: string,
+  vessels: readonly Vessel[],
+  brain: BrainFrame,
+  left: number,
+  top: number,
+  width: number,
+  height: number,
+): Grid {
+  const nx = Math.max(1, Math.ceil(width / POWER_DOPPLER_CELL))
+  const ny = Math.max(1, Math.ceil(height / POWER_DOPPLER_CELL))
+  const pixels = nx * ny
+  const sway = new Float32Array(pixels)
+  for (let i = 0; i < pixels; i++) sway[i] = pulsationSway(left + ((i % nx) + 0.5) * POWER_DOPPLER_CELL, brain)
+  return {
+    key, nx, ny, pixels,
+    // In pixel order, so the blood is filled in as acquisition gets to it
+    cells: findFlowCells(vessels, left, top, nx, ny, POWER_DOPPLER_CELL).sort((a, b) => a.index - b.index),
+    sway,
+    tissueRe: new Float32Array(pixels),
+    tissueIm: new Float32Array(pixels),
+    tissueWavelength: 0,
+    re: new Float32Array(pixels * POWER_DOPPLER_ENSEMBLE),
+    im: new Float32Array(pixels * POWER_DOPPLER_ENSEMBLE),
+    power: new Float64Array(pixels),
+  }
+}
+
+/**
+ * Sums the echoes of the tissue scatterers near each pixel centre, weighted
+ * by a Gaussian point spread function and phased by their depth: the speckle
+ * the tissue shows while it holds still.
+ */
+function echoTissue(grid: Grid, tissue: readonly TissueScatterer[], left: number, top: number, wavelength: number) {
+  const { nx, ny, tissueRe, tissueIm } = grid
+  const sigma = POWER_DOPPLER_CELL / 2, reach = 2.5 * sigma, twoSigmaSq = 2 * sigma * sigma
+  const k = (4 * Math.PI) / wavelength
+  tissueRe.fill(0)
+  tissueIm.fill(0)
+  for (const t of tissue) {
+    const ix0 = Math.max(0, Math.ceil((t.x - reach - left) / POWER_DOPPLER_CELL - 0.5))
+    const ix1 = Math.min(nx - 1, Math.floor((t.x + reach - left) / POWER_DOPPLER_CELL - 0.5))
+    const iy0 = Math.max(0, Math.ceil((t.y - reach - top) / POWER_DOPPLER_CELL - 0.5))
+    const iy1 = Math.min(ny - 1, Math.floor((t.y + reach - top) / POWER_DOPPLER_CELL - 0.5))
+    for (let iy = iy0; iy <= iy1; iy++) {
+      for (let ix = ix0; ix <= ix1; ix++) {
+        const dx = t.x - (left + (ix + 0.5) * POWER_DOPPLER_CELL), dy = t.y - (top + (iy + 0.5) * POWER_DOPPLER_CELL)
+        const weight = TISSUE_BACKSCATTER * t.amplitude * Math.exp(-(dx * dx + dy * dy) / twoSigmaSq)
+        tissueRe[iy * nx + ix] += weight * Math.cos(k * dx)
+        tissueIm[iy * nx + ix] -= weight * Math.sin(k * dx)
+      }
+    }
+  }
+  grid.tissueWavelength = wavelength
+}
+
+/** An ensemble on its way through acquisition, correlation and filtering, a few rows at a time */
+interface Ensemble {
+  number: number
+  /** Blood flow it was acquired with */
+  activity: readonly VesselActivity[]
+  /** Phase of the deepest tissue per frame */
+  swing: Float64Array
+  /** Separate streams for noise and blood, so they come out the same however the work is split */
+  noiseRng: Rng
+  bloodRng: Rng
+  /** Next flow cell to fill with blood */
+  cell: number
+  /** Next pixel to acquire, or once `modes` is known, to filter */
+  next: number
+  correlationRe: Float64Array
+  correlationIm: Float64Array
+  modes: SlowTimeModes | null
+}
+
+function startEnsemble(
+  seed: number,
+  number: number,
+  settings: PowerDopplerSettings,
+  activity: readonly VesselActivity[],
+  units: Units,
+): Ensemble {
+  const frames = POWER_DOPPLER_ENSEMBLE
+  const frameRate = (settings.prf * 1e3) / settings.angles
+  const k = (4 * Math.PI) / units.wavelengthPx(settings.frequency)
+  // The tissue is where the engine draws it when the ensemble starts, and moves on
+  // from there at the frame rate of the experiment clock's physical seconds
+  const swing = new Float64Array(frames)
+  const start = experimentSeconds(number * POWER_DOPPLER_INTERVAL)
+  for (let n = 0; n < frames; n++) swing[n] = k * pulsationShift(start + n / frameRate, settings, units)
+  return {
+    number,
+    activity,
+    swing,
+    noiseRng: createRng(seed ^ Math.imul(number + 1, 0x85ebca6b)),
+    bloodRng: createRng(seed ^ Math.imul(number + 1, 0xc2b2ae35)),
+    cell: 0,
+    next: 0,
+    correlationRe: new Float64Array(correlationSize(frames)),
+    correlationIm: new Float64Array(correlationSize(frames)),
+    modes: null,
+  }
+}
+
+/**
+ * Fills the grid's slow-time signals of pixels `from` up to (not including)
+ * `to` with the ensemble: the pulsating tissue and receive noise in every
+ * pixel, plus blood in the vessels.
+ */
+function acquire(
+  grid: Grid,
+  noiseTable: Float32Array,
+  ensemble: Ensemble,
+  from: number,
+  to: number,
+  settings: PowerDopplerSettings,
+  units: Units,
+) {
+  const { cells, sway, tissueRe, tissueIm, re, im } = grid
+  const { swing, noiseRng, bloodRng, activity } = ensemble
+  const frames = POWER_DOPPLER_ENSEMBLE
+  const frameRate = (settings.prf * 1e3) / settings.angles
+  const k = (4 * Math.PI) / units.wavelengthPx(settings.frequency)
+
+  // Tissue moving away and back turns its echo's phase; noise falls as the
+  // square root of the angles compounded
+  const noise = DOPPLER_NOISE / Math.sqrt(settings.angles)
+  for (let i = from; i < to; i++) {
+    const start = Math.floor(noiseRng() * NOISE_TABLE)
+    const tr = tissueRe[i], ti = tissueIm[i], still = tr === 0 && ti === 0
+    for (let n = 0, o = i * frames; n < frames; n++, o++) {
+      const j = 2 * ((start + n) & (NOISE_TABLE - 1))
+      re[o] = noise * noiseTable[j]
+      im[o] = noise * noiseTable[j + 1]
+      if (still) continue
+      const turn = -swing[n] * sway[i], cs = Math.cos(turn), sn = Math.sin(turn)
+      re[o] += tr * cs - ti * sn
+      im[o] += tr * sn + ti * cs
+    }
+  }
+
+  // Blood through each vessel pixel, which sees scatterers within a couple of σ of its centre.
+  // Its flow comes from the vessel's activity, and its echo power grows with the hematocrit
+  const sigma = POWER_DOPPLER_CELL / 2, reach = 2.5 * sigma, span = 2 * reach
+  const twoSigmaSq = 2 * sigma * sigma
+  for (; ensemble.cell < cells.length && cells[ensemble.cell].index < to; ensemble.cell++) {
+    const c = cells[ensemble.cell]
+    const o = c.index * frames
+    const { flowSpeed, hematocrit } = activity[c.vessel]
+    const mean = flowSpeed * BLOOD_VELOCITY_SCALE, strength = Math.sqrt(hematocrit / HEMATOCRIT)
+    for (let m = 0; m < POWER_DOPPLER_SCATTERERS; m++) {
+      const r = (bloodRng() - 0.5) * POWER_DOPPLER_CELL
+      const across = c.offset + r
+      const velocity = Math.abs(across) < c.radius ? 2 * mean * (1 - (across / c.radius) ** 2) : 0
+      // Sim px along the vessel per frame
+      const step = units.mmToPx(velocity * 1e3) / frameRate
+      const amplitude = strength * Math.sqrt(-Math.log(1 - bloodRng())), phase = 2 * Math.PI * bloodRng()
+      // The plane waves travel along +x, so only that part of the motion turns the phase
+      const turn = -k * c.ux * step, cs = Math.cos(turn), sn = Math.sin(turn)
+      const decay = Math.exp((-2 * step * step) / twoSigmaSq)
+      let s = (2 * bloodRng() - 1) * reach
+      let zr = 0, zi = 0, ratio = 0
+      for (let n = 0; n < frames; n++) {
+        if (n === 0 || s > reach) {
+          // Scatterers leaving the neighbourhood come back in at the far side
+          if (s > reach) s = ((s + reach) % span) - reach
+          const weight = amplitude * Math.exp(-(s * s + r * r) / twoSigmaSq)
+          const ph = phase - k * (s * c.ux - r * c.uy)
+          zr = weight * Math.cos(ph)
+          zi = weight * Math.sin(ph)
+          ratio = Math.exp(-(2 * s * step + step * step) / twoSigmaSq)
+        }
+        re[o + n] += zr
+        im[o + n] += zi
+        // One frame on, the phase has turned and the Gaussian weight changed by `ratio`
+        const next = (zr * cs - zi * sn) * ratio
+        zi = (zr * sn + zi * cs) * ratio
+        zr = next
+        ratio *= decay
+        s += step
+      }
+    }
+  }
+}
+
+/**
+ * Ultrafast power Doppler, the imaging behind functional ultrasound. Every
+ * `POWER_DOPPLER_INTERVAL` of sim time brings an ensemble of
+ * `POWER_DOPPLER_ENSEMBLE` frames, each compounded from `angles` tilted plane
+ * waves, so frames come at PRF / angles and compounding averages the noise
+ * down. A pixel's slow-time signal is the echo of the tissue scatterers
+ * around it, swaying with the cardiac pulsation, plus blood scatterers
+ * flowing through its point spread function at physical velocities.
+ *
+ * The SVD clutter filter splits each ensemble into slow-time modes. Tissue
+ * is strong and moves slowly and all together, so it fills the first few;
+ * blood decorrelates from frame to frame and lands further down, and the
+ * last ones hold mostly noise. The modes between the two cutoffs are
+ * averaged pixel by pixel into the image. Blood is fresh in every ensemble,
+ * so the vessel network comes out of the speckle the longer acquisition runs.
+ *
+ * An ensemble takes far longer to work out than a display frame lasts, so
+ * each call only does `budget` ms of it and picks up from there on the next.
+ * Every ensemble since acquisition (re)started is added, in order, so when
+ * the sim runs ahead (as at high time scales) the image lags behind and
+ * catches up later rather than skipping any. Ensemble n only depends on n and
+ * the vessels' activity at its sim time, so replays build the same image.
+ */
+export function createPowerDoppler(seed: number) {
+  let grid: Grid | null = null
+  let vesselsSeen: readonly Vessel[] | null = null
+  let tissueSeen: readonly TissueScatterer[] | null = null
+  let sum = new Float64Array(0)
+  let acquisitionKey = ""
+  let image: PowerDopplerImage | null = null
+  let pending: Ensemble | null = null
+  let last = -1
+  let shownKey = ""
+  const noiseTable = new Float32Array(2 * NOISE_TABLE)
+  for (let j = 0; j < noiseTable.length; j++) noiseTable[j] = gaussianAt(seed ^ 0x165667b1, j)
+
+  /**
+   * The image at sim time `time`. Works on the oldest ensemble due and not
+   * added yet, with blood flowing as `activityAt` has it at that ensemble's
+   * sim time, and adds it once done, at most one per call; starts afresh when
+   * the region, acquisition settings or scene change, or time goes back.
+   */
+  return function powerDopplerAt(
+    time: number,
+    vessels: readonly Vessel[],
+    activityAt: (time: number) => readonly VesselActivity[],
+    tissue: readonly TissueScatterer[],
+    brain: BrainFrame,
+    left: number,
+    top: number,
+    width: number,
+    height: number,
+    settings: PowerDopplerSettings,
+    units: Units,
+    budget = Infinity,
+  ): PowerDopplerImage {
+    const started = performance.now()
+    const nextGeometry = [left, top, width, height, brain.left, brain.width].join()
+    if (grid?.key !== nextGeometry || vessels !== vesselsSeen || tissue !== tissueSeen) {
+      grid = createGrid(nextGeometry, vessels, brain, left, top, width, height)
+      vesselsSeen = vessels
+      tissueSeen = tissue
+      acquisitionKey = ""
+    }
+    const wavelength = units.wavelengthPx(settings.frequency)
+    if (grid.tissueWavelength !== wavelength) echoTissue(grid, tissue, left, top, wavelength)
+    const { nx, ny, pixels, re, im, power } = grid
+    const first = Math.max(0, Math.min(settings.clutterCutoff, POWER_DOPPLER_ENSEMBLE))
+    const end = Math.max(first, Math.min(settings.noiseCutoff, POWER_DOPPLER_ENSEMBLE))
+
+    const now = Math.floor(time / POWER_DOPPLER_INTERVAL)
+    const nextAcquisition = [
+      grid.key, settings.prf, settings.angles, settings.frequency, first, end, settings.pulsation, settings.heartRate,
+    ].join()
+    if (!image || nextAcquisition !== acquisitionKey || now < last || (pending && now < pending.number)) {
+      acquisitionKey = nextAcquisition
+      image = {
+        left, top, width, height, nx, ny,
+        values: new Float32Array(pixels),
+        frames: 0,
+        duration: 0,
+        energy: new Float64Array(0),
+        ensemble: -1,
+        power: new Float64Array(pixels),
+      }
+      sum = new Float64Array(pixels)
+      pending = null
+      last = now - 1
+      shownKey = ""
+    }
+    if (!pending && now > last) {
+      const next = last + 1
+      pending = startEnsemble(seed, next, settings, activityAt(next * POWER_DOPPLER_INTERVAL), units)
+    }
+
+    while (pending && performance.now() - started < budget) {
+      const to = Math.min(pixels, pending.next + POWER_DOPPLER_CHUNK)
+      if (!pending.modes) {
+        acquire(grid, noiseTable, pending, pending.next, to, settings, units)
+        accumulateCorrelation(re, im, pending.next, to, POWER_DOPPLER_ENSEMBLE, pending.correlationRe, pending.correlationIm)
+        pending.next = to
+        if (to === pixels) {
+          pending.modes = correlationModes(pending.correlationRe, pending.correlationIm, POWER_DOPPLER_ENSEMBLE)
+          pending.next = 0
+        }
+        continue
+      }
+      filteredPower(re, im, pending.next, to, pending.modes, first, end, power)
+      pending.next = to
+      if (to < pixels) continue
+
+      for (let i = 0; i < pixels; i++) sum[i] += power[i]
+      image.power.set(power)
+      image.frames += POWER_DOPPLER_ENSEMBLE
+      image.duration += (POWER_DOPPLER_ENSEMBLE * settings.angles) / (settings.prf * 1e3)
+      image.energy = pending.modes.energy
+      image.ensemble = pending.number
+      last = pending.number
+      pending = null
+    }
+
+    const nextShown = [image.frames, settings.dynamicRange].join()
+    if (nextShown !== shownKey) {
+      shownKey = nextShown
+      let peak = 0
+      for (let i = 0; i < pixels; i++) peak = Math.max(peak, sum[i])
+      for (let i = 0; i < pixels; i++) {
+        image.values[i] = peak > 0 ? Math.max(0, 1 + (10 * Math.log10(sum[i] / peak + 1e-12)) / settings.dynamicRange) : 0
+      }
+    }
+    return image
+  }
+}
+
+/** Power Doppler signal in the region of interest from one ensemble. */
+export interface TimeCoursePoint {
+  /** Experiment seconds since `origin` */
+  time: number
+  /** Mean blood power over the region */
+  power: number
+}
+
+/** A square region of interest, sim px. */
+export interface PowerDopplerRoi {
+  x: number
+  y: number
+  size: number
+}
+
+/** The configured region of interest in sim px, or null if none has been placed. */
+export function getPowerDopplerRoi(powerDoppler: PowerDopplerConfig, layout: ProbeLayout, units: Units): PowerDopplerRoi | null {
+  if (!powerDoppler.roi) return null
+  return {
+    x: layout.faceX + units.mmToPx(powerDoppler.roi.depth),
+    y: (layout.probeTop + layout.probeBot) / 2 + units.mmToPx(powerDoppler.roi.lateral),
+    size: units.mmToPx(powerDoppler.roiSize),
+  }
+}
+
+/**
+ * The power Doppler signal of a region of interest over time, one point per
+ * ensemble, for seeing the blood volume there follow a stimulus. Points are
+ * timed in experiment seconds after sim time `origin`.
+ */
+export function createTimeCourse() {
+  let imageSeen: PowerDopplerImage | null = null
+  let key = ""
+  let points: TimeCoursePoint[] = []
+
+  /**
+   * The time course up to `image`'s newest ensemble. A new array whenever a
+   * point is added; starts afresh with the image, the region or the origin.
+   */
+  return function timeCourseAt(image: PowerDopplerImage, roi: PowerDopplerRoi, origin: number): readonly TimeCoursePoint[] {
+    const nextKey = [roi.x, roi.y, roi.size, origin].join()
+    if (image !== imageSeen || nextKey !== key) {
+      imageSeen = image
+      key = nextKey
+      points = []
+    }
+    const time = experimentSeconds(image.ensemble * POWER_DOPPLER_INTERVAL - origin)
+    if (image.ensemble < 0 || points[points.length - 1]?.time === time) return points
+
+    // Pixels whose centres lie in the region
+    const half = roi.size / 2
+    const ix0 = Math.max(0, Math.ceil((roi.x - half - image.left) / POWER_DOPPLER_CELL - 0.5))
+    const ix1 = Math.min(image.nx - 1, Math.floor((roi.x + half - image.left) / POWER_DOPPLER_CELL - 0.5))
+    const iy0 = Math.max(0, Math.ceil((roi.y - half - image.top) / POWER_DOPPLER_CELL - 0.5))
+    const iy1 = Math.min(image.ny - 1, Math.floor((roi.y + half - image.top) / POWER_DOPPLER_CELL - 0.5))
+    let sum = 0, count = 0
+    for (let iy = iy0; iy <= iy1; iy++) {
+      for (let ix = ix0; ix <= ix1; ix++) {
+        sum += image.power[iy * image.nx + ix]
+        count++
+      }
+    }
+    if (count === 0) return points
+    points = [...points.slice(-(TIME_COURSE_HISTORY - 1)), { time, power: sum / count }]
+    return points
+  }
+}
@@ -0,0 +1,45 @@
+import type { Rgb } from "./field-view"
+import { pulseExtent, pulseProfile } from "./pulse"
+
+/** Samples per wavelength when turning the pulse profile into gradient stops */
+const STOPS_PER_WAVELENGTH = 8
+const MAX_STOPS = 128
+
+/** The pulse profile sampled for drawing: `u` is the distance behind the leading edge */
+export interface PulseStops {
+  extent: number
+  stops: { u: number; p: number }[]
+}
+
+export function samplePulse(wavelength: number, cycles: number): PulseStops {
+  const extent = pulseExtent(wavelength, cycles)
+  const n = Math.min(MAX_STOPS, Math.ceil((extent / wavelength) * STOPS_PER_WAVELENGTH))
+  const stops = []
+  for (let k = 0; k <= n; k++) {
+    const u = (k / n) * extent
+    stops.push({ u, p: pulseProfile(u, wavelength, cycles) })
+  }
+  return { extent, stops }
+}
+
+/**
+ * Paints the pulse's pressure profile into `gradient`: compression in
+ * `positive`, rarefaction in `negative`, opacity following |p|. `offset` maps
+ * a distance behind the leading edge to a gradient offset; stops it puts
+ * outside [0, 1] are dropped.
+ */
+export function addPulseStops(
+  gradient: CanvasGradient,
+  pulse: PulseStops,
+  offset: (u: number) => number,
+  positive: Rgb,
+  negative: Rgb,
+  opacity: number,
+) {
+  for (const { u, p } of pulse.stops) {
+    const o = offset(u)
+    if (o < 0 || o > 1) continue
+    const [r, g, b] = p >= 0 ? positive : negative
+    gradient.addColorStop(o, `rgba(${r},${g},${b},${(Math.abs(p) * opacity).toFixed(3)})`)
+  }
+}
@@ -0,0 +1,46 @@
+// The transmit pulse is a Gaussian-modulated sinusoid. Its length is given in
+// cycles of the carrier, measured between the -6 dB points of the envelope.
+// Lengths below scale with `wavelength`: pass sim px for a spatial profile, or
+// 1 to work in cycles (time times frequency).
+
+const FWHM_PER_SIGMA = 2 * Math.sqrt(2 * Math.LN2)
+
+/** Cycles times fractional bandwidth: a Gaussian pulse can trade one for the other, not beat both */
+export const CYCLES_BANDWIDTH_PRODUCT = (4 * Math.LN2) / Math.PI
+
+/** -6 dB fractional bandwidth of a pulse `cycles` long */
+export function fractionalBandwidth(cycles: number) {
+  return CYCLES_BANDWIDTH_PRODUCT / cycles
+}
+
+/** Pulse length in cycles for a -6 dB fractional `bandwidth` */
+export function cyclesForBandwidth(bandwidth: number) {
+  return CYCLES_BANDWIDTH_PRODUCT / bandwidth
+}
+
+/** Spatial pulse length (between the -6 dB points of the envelope) */
+export function pulseLength(wavelength: number, cycles: number) {
+  return cycles * wavelength
+}
+
+/** Depth separation below which two echoes overlap and merge: half the pulse length */
+export function axialResolution(wavelength: number, cycles: number) {
+  return pulseLength(wavelength, cycles) / 2
+}
+
+/** Full extent of the pulse, envelope down to about -80 dB at either end */
+export function pulseExtent(wavelength: number, cycles: number) {
+  return (6 * pulseLength(wavelength, cycles)) / FWHM_PER_SIGMA
+}
+
+/**
+ * Pressure `u` behind the leading edge of the pulse, in [-1, 1]. Zero outside
+ * `[0, pulseExtent]`.
+ */
+export function pulseProfile(u: number, wavelength: number, cycles: number) {
+  const extent = pulseExtent(wavelength, cycles)
+  if (u < 0 || u > extent) return 0
+  const sigma = pulseLength(wavelength, cycles) / FWHM_PER_SIGMA
+  const d = u - extent / 2
+  return Math.sin((2 * Math.PI * d) / wavelength) * Math.exp((-d * d) / (2 * sigma * sigma))
+}
@@ -0,0 +1,46 @@
+/** Uniform generator on [0, 1), same contract as `Math.random`. */
+export type Rng = () => number
+
+/**
+ * One step of Mulberry32: tiny, fast 32-bit PRNG. Not cryptographic, but more
+ * than good enough for scene layout, and identical across browsers and Node.
+ * Returns the next state and a uniform value on [0, 1).
+ */
+export function mulberry32(state: number): [next: number, value: number] {
+  const next = (state + 0x6d2b79f5) >>> 0
+  let t = next
+  t = Math.imul(t ^ (t >>> 15), t | 1)
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+  return [next, ((t ^ (t >>> 14)) >>> 0) / 4294967296]
+}
+
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0
+  return () => {
+    const [next, value] = mulberry32(state)
+    state = next
+    return value
+  }
+}
+
+/**
+ * Unit Gaussian value number `index` of a sequence fixed by `seed` (Box–Muller
+ * on two draws hashed from the index), so any value can be recomputed on its
+ * own, in any order.
+ */
+export function gaussianAt(seed: number, index: number) {
+  const [state, u] = mulberry32((seed ^ Math.imul(index + 1, 0x9e3779b9)) >>> 0)
+  const [, v] = mulberry32(state)
+  return Math.sqrt(-2 * Math.log(1 - u)) * Math.cos(2 * Math.PI * v)
+}
+
+export function randomSeed() {
+  return Math.floor(Math.random() * 4294967296)
+}
+
+/** Parses a seed from user input (URL param, prop), or `undefined` if it isn't one. */
+export function parseSeed(value: string | null | undefined): number | undefined {
+  if (value == null || !/^\d+$/.test(value)) return undefined
+  const n = Number(value)
+  return n <= 0xffffffff ? n : undefined
+}
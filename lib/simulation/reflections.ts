@@ -0,0 +1,165 @@
+import { brainRays, incidentAt, type TransmitRay } from "./beam"
+import type { SimulationConfig } from "./config"
+import { elementCenterY, getSkullBounds, type ProbeLayout } from "./geometry"
+import { getTissueProperties, impedance, reflection, type MediaColumn } from "./media"
+import { traceRay } from "./refraction"
+import type { Vessel } from "./types"
+
+/** Spacing of the rays a reflector is sampled with, sim px */
+const RAY_SPACING = 3
+/** Nudge off an interface so a reflected ray starts on the side it came from */
+const EPSILON = 1e-3
+
+/** One ray of a reflected front: where it leaves the interface, and in which direction. */
+export interface ReflectedRay {
+  x: number
+  y: number
+  ux: number
+  uy: number
+  /** Tissue px the transmit travels past the reflector's onset before reaching this ray */
+  delay: number
+  /** Signed pressure reflection coefficient at this point */
+  gain: number
+}
+
+/**
+ * A surface that reflects the transmit pulse specularly: one of the planar
+ * interfaces between gel and skull layers, or the wall of a vessel. Only the
+ * part the transmit beam reaches is sampled.
+ */
+export interface Reflector {
+  kind: "skull" | "vessel"
+  rays: ReflectedRay[]
+  /** Tissue px the transmit has travelled when it first reaches the reflector, starting the reflection */
+  onset: number
+  /** Radius past which every ray has arrived at the face or left the sim area */
+  maxRadius: number
+  /** Radius at which the front reaches each element, Infinity if it never does */
+  arrivals: number[]
+  /** Signed amplitude the front arrives with at each element, per unit of incident strength */
+  arrivalGains: number[]
+}
+
+/**
+ * Skull interfaces left to right, then one reflector per vessel, as lit by a
+ * transmit made of `transmit` rays. Indices are stable across resizes and
+ * beam changes. `loss` is as for `traceRay`.
+ */
+export function buildReflectors(
+  config: SimulationConfig,
+  columns: readonly MediaColumn[],
+  vessels: Vessel[],
+  layout: ProbeLayout,
+  w: number,
+  h: number,
+  transmit: readonly TransmitRay[],
+  wavelength: number,
+  loss: number,
+): Reflector[] {
+  const reflectors: Reflector[] = []
+
+  // Planar interfaces between neighbouring columns mirror the transmit rays that cross them
+  const interfaces: ReflectedRay[][] = columns.map(() => [])
+  for (const t of transmit) {
+    traceRay(columns, t.x, t.y, t.ux, t.uy, Infinity, loss, c => {
+      if (c.ux <= 0) return
+      const gain = reflection(columns[c.into - 1].impedance, columns[c.into].impedance) * c.amplitude
+      interfaces[c.into].push({ x: c.x - EPSILON, y: c.y, ux: -c.ux, uy: c.uy, delay: t.delay + c.used, gain })
+    })
+  }
+  for (let k = 1; k < columns.length; k++) reflectors.push(finish("skull", interfaces[k], columns, layout, w, h, loss))
+
+  const props = getTissueProperties(config)
+  const zBrain = impedance(props.brain)
+  const zBlood = impedance(props.blood)
+  const skullRight = getSkullBounds(config).right
+  const entry = brainRays(columns, transmit, loss)
+  for (const v of vessels) {
+    const rays: ReflectedRay[] = []
+    for (const side of [-1, 1]) {
+      for (let k = 0; k < v.points.length - 1; k++) {
+        const a = v.points[k], b = v.points[k + 1]
+        const len = Math.hypot(b.x - a.x, b.y - a.y)
+        if (len === 0) continue
+        const tx = (b.x - a.x) / len, ty = (b.y - a.y) / len
+        // Outward normal of this side of the wall
+        const nx = -ty * side, ny = tx * side
+        for (let d = 0; d < len; d += RAY_SPACING) {
+          const x = a.x + tx * d + nx * v.radius
+          const y = a.y + ty * d + ny * v.radius
+          if (x < skullRight) continue
+          const inc = incidentAt(columns, entry, x, y, wavelength, loss)
+          if (!inc) continue
+          // Walls facing the front go brain -> blood, the far walls blood -> brain
+          const dot = inc.ux * nx + inc.uy * ny
+          const gain = (dot < 0 ? reflection(zBrain, zBlood) : reflection(zBlood, zBrain)) * inc.amplitude
+          // Mirror the incident direction about the wall normal
+          rays.push({ x, y, ux: inc.ux - 2 * dot * nx, uy: inc.uy - 2 * dot * ny, delay: inc.distance, gain })
+        }
+      }
+    }
+    reflectors.push(finish("vessel", rays, columns, layout, w, h, loss))
+  }
+  return reflectors
+}
+
+function finish(
+  kind: Reflector["kind"],
+  rays: ReflectedRay[],
+  columns: readonly MediaColumn[],
+  layout: ProbeLayout,
+  w: number,
+  h: number,
+  loss: number,
+): Reflector {
+  const onset = rays.reduce((m, r) => Math.min(m, r.delay), Infinity)
+  for (const r of rays) r.delay -= onset
+
+  const arrivals = new Array<number>(layout.numElements).fill(Infinity)
+  const arrivalGains = new Array<number>(layout.numElements).fill(0)
+  const reach = (layout.elementH + layout.elementGap) / 2
+  let maxRadius = 0
+  for (const r of rays) {
+    const end = r.ux < 0 ? traceRay(columns, r.x, r.y, r.ux, r.uy, Infinity, loss) : null
+    if (end?.arrived) {
+      maxRadius = Math.max(maxRadius, r.delay + end.used)
+      for (let i = 0; i < layout.numElements; i++) {
+        const radius = r.delay + end.used
+        if (Math.abs(end.y - elementCenterY(layout, i)) > reach || radius >= arrivals[i]) continue
+        arrivals[i] = radius
+        arrivalGains[i] = r.gain * end.amplitude
+      }
+    } else {
+      // Rays heading away, or trapped by total reflection, are followed until they leave the area
+      maxRadius = Math.max(maxRadius, r.delay + Math.hypot(w, h))
+    }
+  }
+  return { kind, rays, onset, maxRadius, arrivals, arrivalGains }
+}
+
+/** A point on a reflected front; `linked` when it continues the previous point's line. */
+export interface FrontPoint {
+  x: number
+  y: number
+  /** Signed amplitude per unit of incident strength */
+  amplitude: number
+  linked: boolean
+}
+
+/** The reflected front `radius` tissue px after the pulse reached the reflector, null where there is none. */
+export function reflectedFront(
+  columns: readonly MediaColumn[],
+  reflector: Reflector,
+  radius: number,
+  loss = 0,
+): (FrontPoint | null)[] {
+  let prev: ReflectedRay | null = null
+  return reflector.rays.map(r => {
+    const budget = radius - r.delay
+    const end = budget > 0 ? traceRay(columns, r.x, r.y, r.ux, r.uy, budget, loss) : null
+    const linked = prev !== null && Math.hypot(r.x - prev.x, r.y - prev.y) < RAY_SPACING * 2
+    prev = r
+    if (!end || end.arrived) return null
+    return { x: end.x, y: end.y, amplitude: r.gain * end.amplitude, linked }
+  })
+}
@@ -0,0 +1,140 @@
+import { columnAt, transmission, type MediaColumn } from "./media"
+
+// Ray tracing through the vertical media columns in front of the probe.
+// Distances are measured as "tissue px": path length divided by the relative
+// sound speed, i.e. how far the wave would have got in soft tissue in the
+// same time. An echo's radius is such a distance.
+//
+// `loss` converts a column's attenuation (dB/cm/MHz) into dB per px of path:
+// the transmit frequency in MHz times cm per px. 0 ignores absorption.
+
+/** Amplitude left after `path` px through `col` */
+export function absorb(col: MediaColumn, loss: number, path: number) {
+  return loss === 0 ? 1 : Math.pow(10, (-col.attenuation * loss * path) / 20)
+}
+
+export interface RayEnd {
+  x: number
+  y: number
+  /** Amplitude left after the interfaces crossed and absorption so far */
+  amplitude: number
+  /** Whether the ray stopped on the probe face */
+  arrived: boolean
+  /** Tissue px used; less than the budget when the ray arrived */
+  used: number
+}
+
+/** Where a ray meets a column boundary, before crossing it */
+export interface RayCrossing {
+  x: number
+  y: number
+  /** Direction the ray arrives in */
+  ux: number
+  uy: number
+  amplitude: number
+  used: number
+  /** Index of the column on the far side */
+  into: number
+}
+
+/**
+ * Follows a ray from (`x`, `y`) along unit direction (`ux`, `uy`) for
+ * `budget` tissue px, bending at each column boundary by Snell's law. Returns
+ * null if the ray is totally reflected before using up its budget.
+ * `onCross` sees every boundary the ray meets on the way.
+ */
+export function traceRay(
+  columns: readonly MediaColumn[],
+  x: number, y: number,
+  ux: number, uy: number,
+  budget: number,
+  loss = 0,
+  onCross?: (crossing: RayCrossing) => void,
+): RayEnd | null {
+  let k = columnAt(columns, x)
+  let amplitude = 1
+  let used = 0
+  for (;;) {
+    const col = columns[k]
+    // Boundaries are vertical: rays heading left meet a column's left edge, rays heading right its right edge
+    const last = k === columns.length - 1
+    const dist = ux < 0 ? (x - col.left) / -ux : ux > 0 && !last ? (col.right - x) / ux : Infinity
+    const cost = dist / col.speed
+    if (budget - used <= cost) {
+      const s = (budget - used) * col.speed
+      amplitude *= absorb(col, loss, s)
+      return { x: x + ux * s, y: y + uy * s, amplitude, arrived: false, used: budget }
+    }
+    used += cost
+    amplitude *= absorb(col, loss, dist)
+    x = ux < 0 ? col.left : col.right
+    y += uy * dist
+    if (k === 0 && ux < 0) return { x, y, amplitude, arrived: true, used }
+    const into = ux < 0 ? k - 1 : k + 1
+    onCross?.({ x, y, ux, uy, amplitude, used, into })
+    const next = columns[into]
+    const sin = (Math.abs(uy) * next.speed) / col.speed
+    if (sin >= 1) return null
+    amplitude *= transmission(col.impedance, next.impedance)
+    uy = Math.sign(uy) * sin
+    ux = Math.sign(ux) * Math.sqrt(1 - sin * sin)
+    k = into
+  }
+}
+
+/** Rays fanned out over the half-plane facing the probe when solving for arrivals */
+const ARRIVAL_RAYS = 181
+
+/**
+ * For a point source at (`x`, `y`), the echo radius at which its wavefront
+ * reaches each face position in `targetYs`, and the amplitude it arrives
+ * with. Positions only reachable past the critical angle get `Infinity` and 0.
+ */
+export function faceArrivals(
+  columns: readonly MediaColumn[],
+  x: number, y: number,
+  targetYs: number[],
+  loss = 0,
+) {
+  const hits: RayEnd[] = []
+  for (let r = 1; r < ARRIVAL_RAYS - 1; r++) {
+    const angle = Math.PI / 2 + (Math.PI * r) / (ARRIVAL_RAYS - 1)
+    const end = traceRay(columns, x, y, Math.cos(angle), Math.sin(angle), Infinity, loss)
+    // Rays are in order of decreasing landing y
+    if (end?.arrived) hits.push(end)
+  }
+  const radii = targetYs.map(() => Infinity)
+  const amplitudes = targetYs.map(() => 0)
+  targetYs.forEach((ty, i) => {
+    for (let h = 0; h < hits.length - 1; h++) {
+      const a = hits[h], b = hits[h + 1]
+      if (ty > a.y || ty < b.y) continue
+      const t = a.y === b.y ? 0 : (a.y - ty) / (a.y - b.y)
+      radii[i] = a.used + (b.used - a.used) * t
+      amplitudes[i] = a.amplitude + (b.amplitude - a.amplitude) * t
+      break
+    }
+  })
+  return { radii, amplitudes }
+}
+
+/**
+ * Points along the wavefront of a point source at (`cx`, `cy`) once it has
+ * spread `radius` tissue px, bent by the media columns. Entries are null where
+ * the front has been totally reflected or has already reached the probe face.
+ */
+export function refractedWavefront(
+  columns: readonly MediaColumn[],
+  cx: number, cy: number,
+  radius: number,
+  samples: number,
+  loss = 0,
+): (RayEnd | null)[] {
+  const points: (RayEnd | null)[] = []
+  for (let r = 0; r <= samples; r++) {
+    const angle = (Math.PI * 2 * r) / samples
+    const end = traceRay(columns, cx, cy, Math.cos(angle), Math.sin(angle), radius, loss)
+    points.push(end && !end.arrived ? end : null)
+  }
+  return points
+}
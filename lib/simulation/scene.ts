@@ -0,0 +1,197 @@
+import type { SimulationConfig, TissueConfig } from "./config"
+import { BRAIN_MARGIN } from "./constants"
+import { getSkullBounds, nearestOnVessel } from "./geometry"
+import type { Rng } from "./random"
+import type { Point, RBC, TissueScatterer, Vessel, VesselPath } from "./types"
+import type { Units } from "./units"
+
+// How far paths extend past the brain region, so vessels enter and leave off-screen
+const OVERFLOW_U = 0.1
+const OVERFLOW_V = 0.125
+const PATH_SAMPLES = 50
+
+function samplePath(fn: (frac: number) => Point): Point[] {
+  const pts: Point[] = []
+  for (let i = 0; i <= PATH_SAMPLES; i++) pts.push(fn(i / PATH_SAMPLES))
+  return pts
+}
+
+/**
+ * Vessel centerlines in normalized brain coordinates (see `VesselPath`).
+ * Independent of the canvas size, so resizing only re-projects them.
+ */
+export function buildVesselPaths(): VesselPath[] {
+  const ou = OVERFLOW_U, ov = OVERFLOW_V
+  return [
+    // Upper vessel: enters from far top-left, diagonal downward-right, stays upper, exits right
+    {
+      points: samplePath(f => ({
+        x: -ou * 0.6 + f * (1 + ou * 1.2),
+        y: -ov + f * 0.35 + Math.sin(f * Math.PI * 2.4) * 0.08,
+      })),
+      radius: 0.025,
+      flowSpeed: 0.0108,
+      hematocrit: 0.42,
+    },
+    // Middle-upper: enters from left off-screen at upper-middle, horizontal-right, exits right-upper
+    {
+      points: samplePath(f => ({
+        x: -ou * 0.3 + f * (1 + ou),
+        y: 0.25 + f * 0.08 + Math.sin(f * Math.PI * 3) * 0.06,
+      })),
+      radius: 0.04,
+      flowSpeed: 0.018,
+      hematocrit: 0.45,
+    },
+    // Middle vessel: enters from bottom-left far off, sharp diagonal up-right, exits top-right
+    {
+      points: samplePath(f => ({
+        x: -ou * 0.7 + f * (1 + ou * 1.4),
+        y: 1 + ov * 0.7 - f * (0.95 + ov * 0.9) + Math.sin(f * Math.PI * 2.6) * 0.07,
+      })),
+      radius: 0.028,
+      flowSpeed: 0.0132,
+      hematocrit: 0.43,
+    },
+    // Middle-lower: enters from left at lower-middle, horizontal-right, exits right-lower
+    {
+      points: samplePath(f => ({
+        x: -ou * 0.2 + f * (1 + ou),
+        y: 0.68 + f * 0.12 + Math.sin(f * Math.PI * 2.8) * 0.07,
+      })),
+      radius: 0.015,
+      flowSpeed: 0.0072,
+      hematocrit: 0.36,
+    },
+    // Lower vessel: enters from far bottom-left, diagonal upward-right, stays lower, exits right-bottom
+    {
+      points: samplePath(f => ({
+        x: -ou * 0.5 + f * (1 + ou * 1.1),
+        y: 1 + ov * 0.5 - f * 0.25 + Math.sin(f * Math.PI * 2.2) * 0.08,
+      })),
+      radius: 0.016,
+      flowSpeed: 0.009,
+      hematocrit: 0.38,
+    },
+  ]
+}
+
+/** Region behind the skull that normalized brain coordinates map onto, sim px. */
+export interface BrainFrame {
+  left: number
+  width: number
+  height: number
+}
+
+export function getBrainFrame(w: number, h: number, config: SimulationConfig): BrainFrame {
+  const left = getSkullBounds(config).right + BRAIN_MARGIN
+  return { left, width: Math.max(1, w - left), height: h }
+}
+
+/** Projects normalized paths onto a `w` x `h` sim area. `flowSpeed` is in path fractions per second. */
+export function projectVessels(paths: VesselPath[], w: number, h: number, config: SimulationConfig): Vessel[] {
+  const frame = getBrainFrame(w, h, config)
+  const { flowScale, radiusScale } = config.vessels
+  return paths.map(path => ({
+    points: path.points.map(p => ({ x: frame.left + p.x * frame.width, y: p.y * frame.height })),
+    radius: path.radius * h * radiusScale,
+    flowSpeed: path.flowSpeed * flowScale,
+    hematocrit: path.hematocrit,
+  }))
+}
+
+/** `count` tissue scatterers spread evenly over the brain, with Rayleigh-distributed amplitudes. */
+export function buildTissue(count: number, rng: Rng): TissueScatterer[] {
+  return Array.from({ length: count }, () => ({
+    x: rng(),
+    y: rng(),
+    amplitude: Math.sqrt(-Math.log(1 - rng())),
+  }))
+}
+
+/** Projects tissue scatterers onto a `w` x `h` sim area, leaving out those inside a vessel's lumen. */
+export function projectTissue(
+  scatterers: TissueScatterer[],
+  vessels: Vessel[],
+  w: number,
+  h: number,
+  config: SimulationConfig,
+): TissueScatterer[] {
+  const frame = getBrainFrame(w, h, config)
+  return scatterers
+    .map(t => ({ x: frame.left + t.x * frame.width, y: t.y * frame.height, amplitude: t.amplitude }))
+    .filter(t => vessels.every(vessel => nearestOnVessel(vessel, t.x, t.y).distance > vessel.radius))
+}
+
+/**
+ * Brain pulsation over the cardiac cycle at physical time `t` (s), between
+ * about -1 and 1: a quick systolic push followed by a slower relaxation.
+ */
+export function cardiacPulsation(t: number, heartRate: number) {
+  const phase = 2 * Math.PI * ((t * heartRate) / 60)
+  return 0.8 * Math.sin(phase) + 0.35 * Math.sin(2 * phase - 0.9) + 0.1 * Math.sin(3 * phase - 1.8)
+}
+
+/**
+ * How far the pulsation has pushed the far side of the brain along the beam,
+ * sim px, `seconds` into the experiment clock (see `experimentSeconds`).
+ * Drawing and power Doppler both move the tissue by this.
+ */
+export function pulsationShift(seconds: number, tissue: Pick<TissueConfig, "pulsation" | "heartRate">, units: Units) {
+  return units.mmToPx(tissue.pulsation * 1e-3) * cardiacPulsation(seconds, tissue.heartRate)
+}
+
+/** Share of `pulsationShift` tissue at `x` moves by: none at the skull, all of it at the far side of the brain. */
+export function pulsationSway(x: number, brain: BrainFrame) {
+  return Math.max(0, Math.min(1, (x - brain.left) / brain.width))
+}
+
+export function buildRBCs(rng: Rng): RBC[] {
+  const rbcs: RBC[] = []
+  const distribution = [
+    { solo: 1, clumps: [2] },
+    { solo: 1, clumps: [3] },
+    { solo: 2, clumps: [] },
+    { solo: 1, clumps: [2] },
+    { solo: 1, clumps: [] },
+  ]
+  let firstLabeled = false
+  let clumpIdCounter = 0
+
+  for (let vi = 0; vi < 5; vi++) {
+    const cfg = distribution[vi]
+    for (let i = 0; i < cfg.solo; i++) {
+      const labeled = !firstLabeled && vi === 0 && i === 0
+      if (labeled) firstLabeled = true
+      const t = 0.4 + (i / Math.max(1, cfg.solo)) * 0.4 + rng() * 0.1
+      const rotation = rng() * Math.PI * 2
+      rbcs.push({
+        vesselIdx: vi,
+        t, prevT: t,
+        size: 3 + rng() * 2.5,
+        rotation, prevRotation: rotation,
+        rotSpeed: (rng() - 0.5) * 1.2,
+        hitByPulses: new Set(), hitTime: -1, labeled,
+        clumpId: -1, clumpOffset: 0,
+      })
+    }
+    for (const clumpSize of cfg.clumps) {
+      const clumpCenter = 0.55 + rng() * 0.3
+      const cid = clumpIdCounter++
+      for (let j = 0; j < clumpSize; j++) {
+        const offset = (j - (clumpSize - 1) / 2) * 0.012
+        const rotation = rng() * Math.PI * 2
+        rbcs.push({
+          vesselIdx: vi,
+          t: clumpCenter + offset, prevT: clumpCenter + offset,
+          size: 3 + rng() * 2,
+          rotation, prevRotation: rotation,
+          rotSpeed: (rng() - 0.5) * 0.9,
+          hitByPulses: new Set(), hitTime: -1, labeled: false,
+          clumpId: cid, clumpOffset: offset,
+        })
+      }
+    }
+  }
+  return rbcs
+}
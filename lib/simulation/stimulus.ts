@@ -0,0 +1,73 @@
+import type { StimulusConfig } from "./config"
+import { POWER_DOPPLER_INTERVAL, STIMULUS_FRAME_PERIOD } from "./constants"
+import type { Vessel } from "./types"
+
+/** A vessel's blood flow at one moment, as the stimulus has changed it. */
+export interface VesselActivity {
+  flowSpeed: number
+  hematocrit: number
+}
+
+/** Experiment seconds that `elapsed` sim seconds stand for (see `STIMULUS_FRAME_PERIOD`). */
+export function experimentSeconds(elapsed: number) {
+  return (elapsed / POWER_DOPPLER_INTERVAL) * STIMULUS_FRAME_PERIOD
+}
+
+/** Start and end of each stimulation block, experiment seconds after the protocol started. */
+export function stimulusBlocks(stimulus: StimulusConfig) {
+  return Array.from({ length: stimulus.blocks }, (_, i) => {
+    const start = stimulus.baseline + i * (stimulus.on + stimulus.off)
+    return { start, end: start + stimulus.on }
+  })
+}
+
+/** P(k, x) for whole k: the gamma distribution function with shape k and unit scale */
+function gammaCdf(k: number, x: number) {
+  if (x <= 0) return 0
+  let term = 1, sum = 1
+  for (let j = 1; j < k; j++) {
+    term *= x / j
+    sum += term
+  }
+  return 1 - Math.exp(-x) * sum
+}
+
+/**
+ * Integral of the canonical haemodynamic response function up to `t` seconds,
+ * scaled to end at 1: a gamma peaking at 5 s less a sixth of one peaking at
+ * 15 s, the later undershoot.
+ */
+function responseIntegral(t: number) {
+  return (gammaCdf(6, t) - gammaCdf(16, t) / 6) / (5 / 6)
+}
+
+/**
+ * The stimulus blocks convolved with the haemodynamic response, `t`
+ * experiment seconds after the protocol started: 0 at rest, rising to about
+ * 1 over a long block, and dipping a little below 0 after each.
+ */
+export function hemodynamicResponse(stimulus: StimulusConfig, t: number) {
+  let response = 0
+  for (const block of stimulusBlocks(stimulus)) {
+    if (t <= block.start) break
+    response += responseIntegral(t - block.start) - responseIntegral(t - block.end)
+  }
+  return response
+}
+
+/**
+ * Flow in each vessel `t` experiment seconds into the protocol. The vessels
+ * it stimulates speed up and fill with more red cells following the
+ * haemodynamic response; the rest, and all of them while it is off, keep
+ * their own flow.
+ */
+export function vesselActivity(vessels: readonly Vessel[], stimulus: StimulusConfig, t: number): VesselActivity[] {
+  const response = stimulus.enabled ? hemodynamicResponse(stimulus, t) : 0
+  return vessels.map((vessel, i) => {
+    const active = response !== 0 && stimulus.vessels.includes(i)
+    return {
+      flowSpeed: vessel.flowSpeed * (active ? 1 + stimulus.flowIncrease * response : 1),
+      hematocrit: vessel.hematocrit * (active ? 1 + stimulus.volumeIncrease * response : 1),
+    }
+  })
+}
@@ -0,0 +1,177 @@
+/**
+ * Singular value decomposition of a Casorati matrix: an ensemble of complex
+ * frames laid out one row per pixel, one column per frame (slow time), stored
+ * pixel-major in separate real and imaginary arrays.
+ */
+export interface SlowTimeModes {
+  frames: number
+  /** Energy of each mode, the squared singular value, largest first */
+  energy: Float64Array
+  /** Slow-time singular vectors: mode k is column k, element `n * frames + k` */
+  re: Float64Array
+  im: Float64Array
+}
+
+/** Length of the packed upper triangle of a frames × frames correlation matrix */
+export function correlationSize(frames: number) {
+  return (frames * (frames + 1)) / 2
+}
+
+/**
+ * Adds pixels `from` up to (not including) `to` to the upper triangle of
+ * Σ conj(s_j)·s_k, packed row by row into (tRe, tIm), so an ensemble can be
+ * correlated a few rows at a time.
+ */
+export function accumulateCorrelation(
+  re: Float32Array,
+  im: Float32Array,
+  from: number,
+  to: number,
+  frames: number,
+  tRe: Float64Array,
+  tIm: Float64Array,
+) {
+  const xr = new Float64Array(frames), xi = new Float64Array(frames)
+  for (let i = from; i < to; i++) {
+    for (let n = 0, o = i * frames; n < frames; n++, o++) { xr[n] = re[o]; xi[n] = im[o] }
+    for (let j = 0, t = 0; j < frames; j++) {
+      const ar = xr[j], ai = xi[j]
+      for (let k = j; k < frames; k++, t++) {
+        tRe[t] += ar * xr[k] + ai * xi[k]
+        tIm[t] += ar * xi[k] - ai * xr[k]
+      }
+    }
+  }
+}
+
+/**
+ * The slow-time modes of an ensemble from the correlation `accumulateCorrelation`
+ * gathered over its pixels: eigenvectors and eigenvalues of that frames ×
+ * frames matrix, which are the right singular vectors and squared singular
+ * values of the Casorati matrix itself. Tissue moves slowly and coherently over
+ * many pixels, so it fills the first few modes; blood decorrelates quickly and
+ * lands further down; noise spreads evenly.
+ */
+export function correlationModes(tRe: Float64Array, tIm: Float64Array, frames: number): SlowTimeModes {
+  const cRe = new Float64Array(frames * frames), cIm = new Float64Array(frames * frames)
+  for (let j = 0, t = 0; j < frames; j++) {
+    for (let k = j; k < frames; k++, t++) {
+      cRe[j * frames + k] = cRe[k * frames + j] = tRe[t]
+      cIm[j * frames + k] = tIm[t]
+      cIm[k * frames + j] = -tIm[t]
+    }
+  }
+
+  const vRe = new Float64Array(frames * frames), vIm = new Float64Array(frames * frames)
+  hermitianJacobi(cRe, cIm, vRe, vIm, frames)
+
+  const order = Array.from({ length: frames }, (_, k) => k).sort((a, b) => cRe[b * frames + b] - cRe[a * frames + a])
+  const modes: SlowTimeModes = {
+    frames,
+    energy: new Float64Array(frames),
+    re: new Float64Array(frames * frames),
+    im: new Float64Array(frames * frames),
+  }
+  order.forEach((from, k) => {
+    modes.energy[k] = Math.max(0, cRe[from * frames + from])
+    for (let n = 0; n < frames; n++) {
+      modes.re[n * frames + k] = vRe[n * frames + from]
+      modes.im[n * frames + k] = vIm[n * frames + from]
+    }
+  })
+  return modes
+}
+
+/**
+ * Mean power per frame of pixels `from` up to (not including) `to` after
+ * keeping only modes `first` up to (not including) `last` — the SVD clutter
+ * filter. Works out the discarded modes and takes them off the total, as
+ * there are usually far fewer of them.
+ */
+export function filteredPower(
+  re: Float32Array,
+  im: Float32Array,
+  from: number,
+  to: number,
+  modes: SlowTimeModes,
+  first: number,
+  last: number,
+  out: Float64Array,
+) {
+  const { frames } = modes
+  for (let i = from; i < to; i++) {
+    const o = i * frames
+    let power = 0
+    for (let n = 0; n < frames; n++) power += re[o + n] * re[o + n] + im[o + n] * im[o + n]
+    for (let k = 0; k < frames; k++) {
+      if (k >= first && k < last) continue
+      // Projection of the pixel's slow-time signal on mode k
+      let pr = 0, pi = 0
+      for (let n = 0; n < frames; n++) {
+        const vr = modes.re[n * frames + k], vi = modes.im[n * frames + k]
+        pr += re[o + n] * vr - im[o + n] * vi
+        pi += re[o + n] * vi + im[o + n] * vr
+      }
+      power -= pr * pr + pi * pi
+    }
+    out[i] = Math.max(0, power) / frames
+  }
+}
+
+/**
+ * Cyclic Jacobi eigen-decomposition of the Hermitian n × n matrix (aRe, aIm),
+ * row-major. Leaves the eigenvalues on its diagonal and the eigenvectors in
+ * the columns of (vRe, vIm).
+ */
+function hermitianJacobi(aRe: Float64Array, aIm: Float64Array, vRe: Float64Array, vIm: Float64Array, n: number) {
+  vRe.fill(0)
+  vIm.fill(0)
+  for (let i = 0; i < n; i++) vRe[i * n + i] = 1
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let off = 0, diagonal = 0
+    for (let p = 0; p < n; p++) {
+      diagonal += aRe[p * n + p] ** 2
+      for (let q = p + 1; q < n; q++) off += aRe[p * n + q] ** 2 + aIm[p * n + q] ** 2
+    }
+    if (off <= 1e-24 * diagonal) return
+
+    for (let p = 0; p < n - 1; p++) {
+      for (let q = p + 1; q < n; q++) {
+        const hr = aRe[p * n + q], hi = aIm[p * n + q]
+        const r = Math.sqrt(hr * hr + hi * hi)
+        if (r === 0) continue
+        // Taking out the phase of a_pq leaves a real symmetric 2 × 2 rotation
+        const er = hr / r, ei = hi / r
+        const theta = (aRe[q * n + q] - aRe[p * n + p]) / (2 * r)
+        const t = (theta < 0 ? -1 : 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1))
+        const c = 1 / Math.sqrt(t * t + 1), s = t * c
+
+        rotateColumns(aRe, aIm, n, p, q, c, s, er, ei)
+        rotateColumns(vRe, vIm, n, p, q, c, s, er, ei)
+        // A ← Gᴴ·A
+        for (let k = 0; k < n; k++) {
+          const pk = p * n + k, qk = q * n + k
+          const pr = aRe[pk], pi = aIm[pk]
+          const qr = er * aRe[qk] - ei * aIm[qk], qi = er * aIm[qk] + ei * aRe[qk]
+          aRe[pk] = c * pr - s * qr; aIm[pk] = c * pi - s * qi
+          aRe[qk] = s * pr + c * qr; aIm[qk] = s * pi + c * qi
+        }
+        aRe[p * n + q] = aIm[p * n + q] = aRe[q * n + p] = aIm[q * n + p] = 0
+        aIm[p * n + p] = aIm[q * n + q] = 0
+      }
+    }
+  }
+}
+
+/** M ← M·G, with G = [[c, s], [-s·e^-iφ, c·e^-iφ]] acting on columns p and q; (er, ei) is e^iφ */
+function rotateColumns(
+  mRe: Float64Array, mIm: Float64Array, n: number, p: number, q: number, c: number, s: number, er: number, ei: number,
+) {
+  for (let k = 0; k < n; k++) {
+    const kp = k * n + p, kq = k * n + q
+    const pr = mRe[kp], pi = mIm[kp]
+    const qr = er * mRe[kq] + ei * mIm[kq], qi = er * mIm[kq] - ei * mRe[kq]
+    mRe[kp] = c * pr - s * qr; mIm[kp] = c * pi - s * qi
+    mRe[kq] = s * pr + c * qr; mIm[kq] = s * pi + c * qi
+  }
+}
@@ -0,0 +1,119 @@
+import type { SolverMode, StimulusConfig, TransmitConfig } from "./config"
+import { KEYFRAME_INTERVAL, TIMELINE_SPAN } from "./constants"
+import type { SimulationState } from "./types"
+
+/** User actions that change how the simulation evolves, and so must be replayed. */
+export type SimulationInput =
+  | { type: "pulse" }
+  | { type: "transmit"; transmit: Partial<TransmitConfig> }
+  | { type: "solver"; mode: SolverMode }
+  | { type: "stimulus"; stimulus: StimulusConfig }
+
+interface LoggedInput {
+  step: number
+  input: SimulationInput
+}
+
+/**
+ * Recording of the recent past: keyframe snapshots every `interval` sim
+ * seconds plus a log of every input, keyed by step index. Any moment inside
+ * the span is recovered by restoring the keyframe before it and
+ * re-simulating with the logged inputs, which reproduces it exactly because
+ * the engine is deterministic.
+ *
+ * Keyframes are taken after a step and before that step's inputs apply.
+ */
+export class Timeline {
+  private keyframes: SimulationState[] = []
+  private inputs: LoggedInput[] = []
+  private _liveStep = 0
+  private _liveTime = 0
+
+  constructor(
+    readonly span = TIMELINE_SPAN,
+    readonly interval = KEYFRAME_INTERVAL,
+  ) {}
+
+  /** Furthest step reached on the current branch of history */
+  get liveStep() {
+    return this._liveStep
+  }
+
+  get liveTime() {
+    return this._liveTime
+  }
+
+  /** Earliest time that can still be reached */
+  get startTime() {
+    return this.keyframes[0]?.time ?? 0
+  }
+
+  get startStep() {
+    return this.keyframes[0]?.stepIndex ?? 0
+  }
+
+  clear() {
+    this.keyframes = []
+    this.inputs = []
+    this._liveStep = 0
+    this._liveTime = 0
+  }
+
+  /** Called after every step. Keeps `snapshot` as a keyframe if one is due at this point. */
+  record(state: Readonly<SimulationState>, snapshot: () => SimulationState) {
+    if (state.stepIndex > this._liveStep) {
+      this._liveStep = state.stepIndex
+      this._liveTime = state.time
+    }
+    const last = this.keyframes[this.keyframes.length - 1]
+    // Re-simulating the past passes through steps that already have keyframes
+    if (last && (state.stepIndex <= last.stepIndex || state.time - last.time < this.interval - 1e-9)) return
+    this.keyframes.push(snapshot())
+    this.trim()
+  }
+
+  logInput(step: number, input: SimulationInput) {
+    this.inputs.push({ step, input })
+  }
+
+  inputsAt(step: number): SimulationInput[] {
+    return this.inputs.filter(e => e.step === step).map(e => e.input)
+  }
+
+  keyframeAtOrBefore(time: number): SimulationState | undefined {
+    for (let i = this.keyframes.length - 1; i >= 0; i--) {
+      if (this.keyframes[i].time <= time + 1e-9) return this.keyframes[i]
+    }
+    return this.keyframes[0]
+  }
+
+  keyframeAtOrBeforeStep(step: number): SimulationState | undefined {
+    for (let i = this.keyframes.length - 1; i >= 0; i--) {
+      if (this.keyframes[i].stepIndex <= step) return this.keyframes[i]
+    }
+    return this.keyframes[0]
+  }
+
+  /**
+   * Starts a new branch at `step`: the recorded future after it is
+   * discarded, as new input there makes it unreachable.
+   */
+  branch(step: number, time: number) {
+    this.keyframes = this.keyframes.filter(k => k.stepIndex <= step)
+    this.inputs = this.inputs.filter(e => e.step <= step)
+    this._liveStep = step
+    this._liveTime = time
+  }
+
+  private trim() {
+    const cutoff = this._liveTime - this.span
+    // Keep the last keyframe at or before the cutoff so the whole span stays reachable
+    let first = 0
+    while (first + 1 < this.keyframes.length && this.keyframes[first + 1].time <= cutoff) first++
+    if (first > 0) {
+      this.keyframes = this.keyframes.slice(first)
+      const startStep = this.keyframes[0].stepIndex
+      this.inputs = this.inputs.filter(e => e.step >= startStep)
+    }
+  }
+}
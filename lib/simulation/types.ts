@@ -0,0 +1,198 @@
+import type { BeamShape, TransmitRay } from "./beam"
+import type { SolverMode, StimulusConfig, TransmitConfig } from "./config"
+
+// Moving quantities keep their value from the previous fixed step (`prev*`)
+// so renderers can interpolate between physics ticks.
+
+// ─── Scene ───────────────────────────────────────────────────────────────────
+
+export interface Point {
+  x: number
+  y: number
+}
+
+/**
+ * Vessel centerline in normalized brain coordinates: x runs 0..1 from just
+ * behind the skull to the right edge, y runs 0..1 from top to bottom, and
+ * `radius` is a fraction of the sim height.
+ */
+export interface VesselPath {
+  points: Point[]
+  radius: number
+  flowSpeed: number
+  /** Share of the blood volume taken by red cells */
+  hematocrit: number
+}
+
+/** A `VesselPath` projected into sim px for the current canvas size. */
+export interface Vessel {
+  points: Point[]
+  radius: number
+  flowSpeed: number
+  hematocrit: number
+}
+
+/**
+ * A scatterer in the brain tissue, its amplitude relative to a blood
+ * scatterer's, at rest: it sways with the cardiac pulsation by
+ * `SimulationState.tissueShift`. Like a `VesselPath` it is built in
+ * normalized brain coordinates and projected into sim px for the current
+ * canvas size. Only power Doppler hears its echo; the pulses, PW Doppler and
+ * colour flow scatter off red cells alone, so the clutter is in its data only.
+ */
+export interface TissueScatterer {
+  x: number
+  y: number
+  amplitude: number
+}
+
+export interface RBC {
+  vesselIdx: number
+  t: number
+  prevT: number
+  size: number
+  rotation: number
+  prevRotation: number
+  /** rad/s */
+  rotSpeed: number
+  /** Pulses in flight that already scattered off this cell */
+  hitByPulses: Set<number>
+  /** Sim time of the last hit, -1 if never hit */
+  hitTime: number
+  labeled: boolean
+  clumpId: number
+  clumpOffset: number
+}
+
+// ─── Waves ───────────────────────────────────────────────────────────────────
+
+export interface SphericalEcho {
+  cx: number
+  cy: number
+  radius: number
+  prevRadius: number
+  /** Display opacity of the front in the brain, from its current amplitude */
+  opacity: number
+  birthTime: number
+  /** Strength at birth: the incident pulse times the scatterer's backscatter */
+  amplitude: number
+  /**
+   * Radius at which the front, bent through the skull, reaches each element;
+   * Infinity for elements it never reaches
+   */
+  arrivals: number[]
+  /** Amplitude the front arrives with at each element */
+  arrivalGains: number[]
+}
+
+/**
+ * Specular reflection of a pulse off one of the engine's reflectors (a skull
+ * interface or a vessel wall). The front's shape comes from the reflector.
+ */
+export interface ReflectedWave {
+  /** Index into the engine's reflectors */
+  reflector: number
+  /** Tissue px the pulse has travelled past the reflector's onset */
+  radius: number
+  prevRadius: number
+  /** Strength relative to the reflector's gains, which include losses on the way in */
+  amplitude: number
+  birthTime: number
+}
+
+export interface PulseWave {
+  id: number
+  /** Tissue px the first element's wavelet has travelled */
+  distance: number
+  prevDistance: number
+  /** Furthest x the front has reached */
+  x: number
+  prevX: number
+  /** Sim time the pulse was fired */
+  firedAt: number
+  /** Firing delay of each element, tissue px after the first */
+  delays: readonly number[]
+  /** Rays the front is followed with, fixed when fired so later beam changes leave it alone */
+  rays: readonly TransmitRay[]
+}
+
+/**
+ * Acoustic field on a staggered grid of `nx` x `ny` cells of size `dx`, whose
+ * top-left corner sits at (`x0`, `y0`) in sim px. Arrays are row-major.
+ */
+export interface PressureField {
+  nx: number
+  ny: number
+  dx: number
+  x0: number
+  y0: number
+  p: Float32Array
+  vx: Float32Array
+  vy: Float32Array
+}
+
+// ─── Engine state ────────────────────────────────────────────────────────────
+
+/**
+ * What the elements received after one transmit: a trace per element whose
+ * sample k was taken k * `spacing` tissue px of round trip after the aperture
+ * started firing.
+ */
+export interface ChannelData {
+  transmitId: number
+  firedAt: number
+  /** Sampling rate, MHz; `spacing` is the same rate in tissue px of round trip */
+  samplingRate: number
+  spacing: number
+  numElements: number
+  numSamples: number
+  /** Element-major: element i's trace is `data.subarray(i * numSamples, (i + 1) * numSamples)` */
+  data: Float32Array
+  /** Beam the transmit was fired with, for beamforming after the settings change */
+  beam: BeamShape
+  /** Carrier wavelength of the transmit, sim px */
+  wavelength: number
+  /** RMS of the receive noise in `data` */
+  noise: number
+  /** Seeds the noise, which is a fixed function of it and the sample index */
+  noiseSeed: number
+}
+
+export interface SimulationState {
+  vesselPaths: VesselPath[]
+  vessels: Vessel[]
+  /** Tissue scatterers in normalized brain coordinates, and projected into sim px outside the vessels */
+  tissueScatterers: TissueScatterer[]
+  tissue: TissueScatterer[]
+  /**
+   * How far the cardiac pulsation has pushed the far side of the brain along
+   * the beam, sim px; tissue in between moves in proportion to its depth past
+   * the skull (see `pulsationShift` and `pulsationSway`). It beats on the
+   * stimulus's experiment clock, as at physical time the heart would not beat
+   * once in a session; power Doppler ensembles sample the same motion
+   */
+  tissueShift: number
+  rbcs: RBC[]
+  echoes: SphericalEcho[]
+  reflections: ReflectedWave[]
+  pulses: PulseWave[]
+  nextPulseId: number
+  time: number
+  /** Number of steps taken since the scene was built */
+  stepIndex: number
+  /** Automatic transmit settings in force at this moment */
+  transmit: TransmitConfig
+  /** Sim time of the next automatic transmit */
+  nextTransmitAt: number
+  dims: { w: number; h: number }
+  elementActivations: number[]
+  /** How waves are modelled at this moment */
+  solver: SolverMode
+  /** Stimulus protocol in force at this moment, and the sim time it was last switched on */
+  stimulus: StimulusConfig
+  stimulusStart: number
+  /** Wave field while `solver` is "fdtd", otherwise null */
+  field: PressureField | null
+  /** Receive record of the most recent transmit */
+  channels: ChannelData | null
+}
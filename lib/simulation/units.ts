@@ -0,0 +1,52 @@
+import type { SimulationConfig } from "./config"
+
+/**
+ * Mapping between sim space (px, sim seconds, px/s) and the physical world
+ * (mm, µs, m/s). Depth is set by `units.mmPerPx`; time follows from
+ * requiring `medium.waveSpeed` to be the speed of sound in soft tissue.
+ */
+export interface Units {
+  mmPerPx: number
+  /** Physical microseconds represented by one second of sim time */
+  usPerSimSecond: number
+  pxToMm(px: number): number
+  mmToPx(mm: number): number
+  simToUs(seconds: number): number
+  usToSim(us: number): number
+  /** Sim px/s for a physical speed in m/s */
+  speedToSim(metersPerSecond: number): number
+  /** Physical rate in Hz for a rate in events per sim second */
+  rateToHz(perSimSecond: number): number
+  /** Wavelength in soft tissue, in sim px, at `frequency` MHz */
+  wavelengthPx(frequency: number): number
+}
+
+export function createUnits(config: SimulationConfig): Units {
+  const { mmPerPx } = config.units
+  const { waveSpeed, tissueSoundSpeed } = config.medium
+  // 1 m/s is 1e-3 mm/µs
+  const usPerSimSecond = (waveSpeed * mmPerPx) / (tissueSoundSpeed * 1e-3)
+  return {
+    mmPerPx,
+    usPerSimSecond,
+    pxToMm: px => px * mmPerPx,
+    mmToPx: mm => mm / mmPerPx,
+    simToUs: seconds => seconds * usPerSimSecond,
+    usToSim: us => us / usPerSimSecond,
+    speedToSim: mps => (mps / tissueSoundSpeed) * waveSpeed,
+    rateToHz: rate => rate / (usPerSimSecond * 1e-6),
+    // c / f in m, then mm
+    wavelengthPx: frequency => ((tissueSoundSpeed / (frequency * 1e6)) * 1e3) / mmPerPx,
+  }
+}
+
+export function formatDuration(us: number) {
+  if (Math.abs(us) >= 1000) return `${(us / 1000).toFixed(2)} ms`
+  return `${us.toFixed(us < 10 ? 2 : 1)} µs`
+}
+
+export function formatFrequency(hz: number) {
+  if (hz >= 1e6) return `${(hz / 1e6).toFixed(2)} MHz`
+  if (hz >= 1e3) return `${(hz / 1e3).toFixed(1)} kHz`
+  return `${hz.toFixed(0)} Hz`
+}